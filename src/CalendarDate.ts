@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Provides the CalendarDate helper for arithmetic on date-only values.
+ * Dates are YYYY-MM-DD strings without a time or time zone; all calculations run
+ * on UTC midnight so they never shift by a day because of the local time zone.
+ * @module CalendarDate
+ */
+
+/**
+ * A unit for date offsets: days, weeks, months or years.
+ */
+export type DateUnit = "d" | "w" | "m" | "y";
+
+/** Milliseconds per day */
+const DAY = 86400000;
+
+/** Days per month in a common year */
+const MONTH_LENGTHS = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/** Largest timestamp a Date can hold */
+const MAX_TIME = 8.64e15;
+
+/**
+ * Static helpers for YYYY-MM-DD dates.
+ */
+export class CalendarDate {
+  /**
+   * Checks whether a string is a YYYY-MM-DD date that exists in the calendar,
+   * taking month lengths and leap years into account.
+   * @param {string} date - The string to check.
+   * @returns {boolean} True if the date is valid.
+   */
+  static isValid(date: string): boolean {
+    const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return false;
+
+    const year = parseInt(match[1]);
+    const month = parseInt(match[2]);
+    const day = parseInt(match[3]);
+    if (month < 1 || month > 12 || day < 1) return false;
+
+    const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+    return day <= MONTH_LENGTHS[month - 1] + (leap && month === 2 ? 1 : 0);
+  }
+
+  /**
+   * Converts a date to the timestamp of its UTC midnight.
+   * @param {string} date - The date in YYYY-MM-DD format.
+   * @returns {number} The timestamp in milliseconds.
+   */
+  static toTime(date: string): number {
+    return Date.parse(`${date}T00:00:00Z`);
+  }
+
+  /**
+   * Converts a timestamp to the date of its UTC day.
+   * @param {number} time - The timestamp in milliseconds.
+   * @returns {string} The date in YYYY-MM-DD format, or an empty string if
+   * the timestamp is not a valid time (e.g. NaN from an invalid date).
+   */
+  static fromTime(time: number): string {
+    if (!Number.isFinite(time) || Math.abs(time) > MAX_TIME) return "";
+    return new Date(time).toISOString().split("T")[0];
+  }
+
+  /**
+   * Builds a date from its parts, clamping the day to the end of the month.
+   * @param {number} year - The year.
+   * @param {number} month - The month (0-based; values outside 0-11 roll over the year).
+   * @param {number} day - The day of the month.
+   * @returns {string} The date in YYYY-MM-DD format.
+   */
+  static fromParts(year: number, month: number, day: number): string {
+    const lastDay = CalendarDate.daysInMonth(year, month);
+    return CalendarDate.fromTime(Date.UTC(year, month, Math.min(day, lastDay)));
+  }
+
+  /**
+   * Counts the days of a month.
+   * @param {number} year - The year.
+   * @param {number} month - The month (0-based).
+   * @returns {number} The number of days.
+   */
+  static daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  }
+
+  /**
+   * Adds an offset to a date. Month and year offsets keep the day of the month,
+   * clamped to the end of a shorter month (January 31 + 1m is February 28).
+   * @param {string} date - The date in YYYY-MM-DD format.
+   * @param {number} amount - The number of units, negative to move back.
+   * @param {DateUnit} [unit] - The unit of the offset. Defaults to days.
+   * @returns {string} The resulting date in YYYY-MM-DD format, or an empty
+   * string if the date is not valid.
+   */
+  static add(date: string, amount: number, unit: DateUnit = "d"): string {
+    const d = new Date(CalendarDate.toTime(date));
+    switch (unit) {
+      case "d":
+        return CalendarDate.fromTime(d.getTime() + amount * DAY);
+      case "w":
+        return CalendarDate.fromTime(d.getTime() + amount * 7 * DAY);
+      case "m":
+        return CalendarDate.fromParts(
+          d.getUTCFullYear(),
+          d.getUTCMonth() + amount,
+          d.getUTCDate()
+        );
+      case "y":
+        return CalendarDate.fromParts(
+          d.getUTCFullYear() + amount,
+          d.getUTCMonth(),
+          d.getUTCDate()
+        );
+    }
+  }
+
+  /**
+   * Adds business days (Monday to Friday) to a date, skipping weekends.
+   * @param {string} date - The date in YYYY-MM-DD format.
+   * @param {number} amount - The number of business days, negative to move back.
+   * @returns {string} The resulting date in YYYY-MM-DD format.
+   */
+  static addBusinessDays(date: string, amount: number): string {
+    const step = amount < 0 ? -1 : 1;
+    let time = CalendarDate.toTime(date);
+    for (let added = 0; added < Math.abs(amount); ) {
+      time += step * DAY;
+      const day = new Date(time).getUTCDay();
+      if (day !== 0 && day !== 6) added++;
+    }
+    return CalendarDate.fromTime(time);
+  }
+
+  /**
+   * Counts the days from one date to another.
+   * @param {string} from - The start date in YYYY-MM-DD format.
+   * @param {string} to - The end date in YYYY-MM-DD format.
+   * @returns {number} The number of days, negative if `to` is earlier.
+   */
+  static diff(from: string, to: string): number {
+    return Math.round(
+      (CalendarDate.toTime(to) - CalendarDate.toTime(from)) / DAY
+    );
+  }
+
+  /**
+   * Gets the day of the week of a date.
+   * @param {string} date - The date in YYYY-MM-DD format.
+   * @returns {number} The weekday, 0 (Sunday) to 6 (Saturday).
+   */
+  static weekday(date: string): number {
+    return new Date(CalendarDate.toTime(date)).getUTCDay();
+  }
+}
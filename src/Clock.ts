@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Provides the Clock class that determines the current date.
+ * A clock can be set per TodoList or globally, use the local or an explicit
+ * IANA time zone, and be frozen for tests.
+ * @module Clock
+ */
+
+/**
+ * Configuration options for a Clock.
+ */
+export interface ClockOptions {
+  /** IANA time zone such as "Europe/Berlin". Defaults to the local time zone. */
+  timeZone?: string;
+
+  /** Returns the current instant. Defaults to the system time. */
+  now?: () => Date;
+}
+
+/**
+ * Source of the current date and time.
+ */
+export class Clock {
+  /** The clock used when no other clock is given */
+  private static defaultClock: Clock = new Clock();
+
+  /** Date returned by a clock frozen on a calendar date */
+  private fixedToday?: string;
+
+  /**
+   * Creates a new Clock.
+   * @param {ClockOptions} [options] - Optional configuration.
+   * @throws {RangeError} If the time zone is not a valid IANA time zone.
+   */
+  constructor(private options: ClockOptions = {}) {
+    if (options.timeZone) {
+      // Throws a RangeError for unknown time zones
+      new Intl.DateTimeFormat("en-US", { timeZone: options.timeZone });
+    }
+  }
+
+  /**
+   * Gets the clock used by todos and lists without their own clock.
+   * @returns {Clock} The default clock.
+   */
+  static getDefault(): Clock {
+    return Clock.defaultClock;
+  }
+
+  /**
+   * Replaces the default clock, e.g. to freeze time in tests.
+   * @param {Clock} [clock] - The new default clock; omit to restore the system clock.
+   */
+  static setDefault(clock?: Clock): void {
+    Clock.defaultClock = clock ?? new Clock();
+  }
+
+  /**
+   * Creates a clock that is frozen at a date or instant.
+   * @param {string|Date} value - A YYYY-MM-DD date (today in every time zone)
+   * or an instant as Date or ISO string.
+   * @param {string} [timeZone] - IANA time zone used for instants.
+   * @returns {Clock} The frozen clock.
+   */
+  static fixed(value: string | Date, timeZone?: string): Clock {
+    const isDate =
+      typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const instant = isDate ? new Date(`${value}T12:00:00Z`) : new Date(value);
+    const clock = new Clock({ timeZone, now: () => new Date(instant) });
+    if (isDate) clock.fixedToday = value as string;
+    return clock;
+  }
+
+  /** Get the IANA time zone, or undefined for the local time zone */
+  get timeZone(): string | undefined {
+    return this.options.timeZone;
+  }
+
+  /**
+   * Returns the current instant.
+   * @returns {Date} The current date and time.
+   */
+  now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+
+  /**
+   * Returns the current calendar date in the clock's time zone.
+   * @returns {string} Today's date in YYYY-MM-DD format.
+   */
+  today(): string {
+    if (this.fixedToday) return this.fixedToday;
+
+    const now = this.now();
+    if (!this.options.timeZone) {
+      return [
+        now.getFullYear(),
+        String(now.getMonth() + 1).padStart(2, "0"),
+        String(now.getDate()).padStart(2, "0"),
+      ].join("-");
+    }
+
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: this.options.timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).formatToParts(now);
+    const part = (type: string) =>
+      parts.find((p) => p.type === type)?.value ?? "";
+    return `${part("year")}-${part("month")}-${part("day")}`;
+  }
+}
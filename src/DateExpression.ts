@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Provides the DateExpression class for resolving natural-language
+ * and relative dates such as `tomorrow`, `fri`, `+2w` or `eom` to YYYY-MM-DD dates.
+ * @module DateExpression
+ */
+
+import { CalendarDate, DateUnit } from "./CalendarDate";
+
+/** Weekday names in the order of Date.getUTCDay() */
+const WEEKDAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/** Periods that `next-...` and `eo...` expressions refer to */
+type Period = "week" | "month" | "quarter" | "year";
+
+/** Periods by their `eo...` abbreviation */
+const PERIOD_CODES: { [code: string]: Period } = {
+  w: "week",
+  m: "month",
+  q: "quarter",
+  y: "year",
+};
+
+/**
+ * Resolves date expressions against a given "today".
+ *
+ * Supported expressions (case-insensitive):
+ * - `YYYY-MM-DD`: a calendar date, returned as is
+ * - `today`, `tomorrow`, `yesterday` (or `tod`, `tom`)
+ * - weekdays such as `fri` or `friday`: the next such day after today
+ * - offsets such as `+3d`, `2w`, `-1m`, `+1y` or `+5b` (business days)
+ * - `eow`, `eom`, `eoq`, `eoy`: the last day of the current week (Sunday),
+ *   month, quarter or year
+ * - `next-week`, `next-month`, `next-quarter`, `next-year`: the first day of
+ *   the next period (weeks start on Monday)
+ * - any of these followed by an offset, e.g. `today+3` (days), `fri+1w` or
+ *   `eom-2b`
+ */
+export class DateExpression {
+  /**
+   * Resolves an expression to a date.
+   * @param {string} expression - The expression, e.g. "tomorrow" or "+2w".
+   * @param {string} today - Today's date in YYYY-MM-DD format.
+   * @returns {string|undefined} The date in YYYY-MM-DD format, or undefined if
+   * the expression is not recognized.
+   */
+  static resolve(expression: string, today: string): string | undefined {
+    const value = expression.trim().toLowerCase();
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return CalendarDate.isValid(value) ? value : undefined;
+    }
+
+    switch (value) {
+      case "today":
+      case "tod":
+        return today;
+      case "tomorrow":
+      case "tom":
+        return CalendarDate.add(today, 1);
+      case "yesterday":
+        return CalendarDate.add(today, -1);
+    }
+
+    const offset = value.match(/^([+-]?\d+)([dwmyb])$/);
+    if (offset) {
+      const amount = parseInt(offset[1]);
+      return offset[2] === "b"
+        ? CalendarDate.addBusinessDays(today, amount)
+        : CalendarDate.add(today, amount, offset[2] as DateUnit);
+    }
+
+    const end = value.match(/^eo([wmqy])$/);
+    if (end) {
+      const next = DateExpression.startOfNext(today, PERIOD_CODES[end[1]]);
+      return CalendarDate.add(next, -1);
+    }
+
+    const next = value.match(/^next-(week|month|quarter|year)$/);
+    if (next) {
+      return DateExpression.startOfNext(today, next[1] as Period);
+    }
+
+    const weekday = WEEKDAY_NAMES.findIndex(
+      (name) => value === name || value === name.substring(0, 3)
+    );
+    if (weekday !== -1) {
+      const ahead = (weekday - CalendarDate.weekday(today) + 7) % 7 || 7;
+      return CalendarDate.add(today, ahead);
+    }
+
+    const shifted = value.match(/^(.+?)([+-]\d+)([dwmyb])?$/);
+    if (shifted) {
+      const base = DateExpression.resolve(shifted[1], today);
+      if (base) {
+        return DateExpression.resolve(shifted[2] + (shifted[3] ?? "d"), base);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks if a value is a plain offset such as "-3d" or "+2w". In `t:` such
+   * offsets are relative to the due date rather than to today.
+   * @param {string} value - The value to check.
+   * @returns {boolean} True if the value is an offset.
+   */
+  static isOffset(value: string): boolean {
+    return /^[+-]\d+[dwmy]?$/i.test(value);
+  }
+
+  /**
+   * Finds the first day of the period after the one containing a date.
+   * @param {string} date - The date in YYYY-MM-DD format.
+   * @param {Period} period - The period.
+   * @returns {string} The first day of the next period in YYYY-MM-DD format.
+   * @private
+   */
+  private static startOfNext(date: string, period: Period): string {
+    const [year, month] = date.split("-").map((part) => parseInt(part));
+    switch (period) {
+      case "week":
+        // Weeks start on Monday
+        return CalendarDate.add(
+          date,
+          7 - ((CalendarDate.weekday(date) + 6) % 7)
+        );
+      case "month":
+        return CalendarDate.fromParts(year, month, 1);
+      case "quarter":
+        return CalendarDate.fromParts(year, Math.ceil(month / 3) * 3, 1);
+      case "year":
+        return CalendarDate.fromParts(year + 1, 0, 1);
+    }
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Provides the KeySchema class and built-in KeyTypes for typed key-value pairs.
+ * A schema declares the type of each key, so values are parsed to typed values
+ * and serialized back to text without losing their format.
+ * @module KeySchema
+ */
+
+import { CalendarDate } from "./CalendarDate";
+import { KeyHandler } from "./Parser";
+
+/**
+ * The type of the values of a key: how text is parsed and formatted.
+ */
+export interface KeyType<T> {
+  /** Name of the type used in error messages */
+  name: string;
+
+  /**
+   * Parses the text of a value.
+   * @throws {Error} If the text is not a valid value.
+   */
+  parse(text: string): T;
+
+  /** Formats a value as text for a todo.txt line */
+  format(value: T): string;
+
+  /** True if values are arrays written as a single separated value */
+  list?: boolean;
+}
+
+/**
+ * The key types of a schema, derived from the types of its values.
+ */
+export type KeyTypeMap<V> = { [K in keyof V]: KeyType<V[K]> };
+
+/** Units of durations in minutes, largest first */
+const DURATION_UNITS: [string, number][] = [
+  ["w", 7 * 24 * 60],
+  ["d", 24 * 60],
+  ["h", 60],
+  ["m", 1],
+];
+
+/**
+ * Built-in key types.
+ */
+export class KeyTypes {
+  /** Plain text, kept as it is */
+  static readonly text: KeyType<string> = {
+    name: "text",
+    parse: (text) => text,
+    format: (value) => value,
+  };
+
+  /** A calendar date in YYYY-MM-DD format, kept as a string like all dates of a todo */
+  static readonly date: KeyType<string> = {
+    name: "date",
+    parse: (text) => KeyTypes.check(text, "date", CalendarDate.isValid(text)),
+    format: (value) => value,
+  };
+
+  /** A whole number such as `3` or `-12` */
+  static readonly integer: KeyType<number> = {
+    name: "integer",
+    parse: (text) =>
+      parseInt(KeyTypes.check(text, "integer", /^[+-]?\d+$/.test(text))),
+    format: (value) => String(value),
+  };
+
+  /** A decimal number such as `2.5` */
+  static readonly decimal: KeyType<number> = {
+    name: "decimal",
+    parse: (text) =>
+      parseFloat(
+        KeyTypes.check(text, "decimal", /^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(text))
+      ),
+    format: (value) => String(value),
+  };
+
+  /** A duration such as `45m`, `1h30m` or `2d`, as a number of minutes */
+  static readonly duration: KeyType<number> = {
+    name: "duration",
+    parse: (text) => {
+      const match = text.match(
+        /^(?:(\d+)w)?(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?$/i
+      );
+      KeyTypes.check(text, "duration", !!match && text !== "");
+      return DURATION_UNITS.reduce(
+        (total, [, minutes], i) =>
+          total + parseInt(match![i + 1] ?? "0") * minutes,
+        0
+      );
+    },
+    format: (value) => {
+      if (value === 0) return "0m";
+      let rest = value;
+      let text = "";
+      for (const [unit, minutes] of DURATION_UNITS) {
+        const count = Math.floor(rest / minutes);
+        if (count > 0) text += `${count}${unit}`;
+        rest -= count * minutes;
+      }
+      return text;
+    },
+  };
+
+  /** A boolean written as `true`/`false`, `yes`/`no` or `1`/`0` */
+  static readonly boolean: KeyType<boolean> = {
+    name: "boolean",
+    parse: (text) => {
+      const value = text.toLowerCase();
+      if (["true", "yes", "1"].includes(value)) return true;
+      if (["false", "no", "0"].includes(value)) return false;
+      throw new Error(`Invalid boolean '${text}'`);
+    },
+    format: (value) => String(value),
+  };
+
+  /** An absolute URL such as `https://example.com/issue/42`, kept as a string */
+  static readonly url: KeyType<string> = {
+    name: "url",
+    parse: (text) => {
+      try {
+        new URL(text);
+      } catch {
+        throw new Error(`Invalid url '${text}'`);
+      }
+      return text;
+    },
+    format: (value) => value,
+  };
+
+  /**
+   * Creates a type that allows only the given values.
+   * @param {string[]} values - The allowed values.
+   * @returns {KeyType} The enum type.
+   */
+  static enum<T extends string>(...values: T[]): KeyType<T> {
+    return {
+      name: `enum (${values.join(", ")})`,
+      parse: (text) =>
+        KeyTypes.check(text, "value", values.includes(text as T)) as T,
+      format: (value) => value,
+    };
+  }
+
+  /**
+   * Creates a type for separated lists of values, such as `tags:a,b,c`.
+   * @param {KeyType} [item] - The type of the items. Defaults to text.
+   * @param {string} [separator] - The separator between items. Defaults to ",".
+   * @returns {KeyType} The list type.
+   */
+  static list<T = string>(
+    item: KeyType<T> = KeyTypes.text as unknown as KeyType<T>,
+    separator: string = ","
+  ): KeyType<T[]> {
+    return {
+      name: `list of ${item.name}`,
+      list: true,
+      parse: (text) => text.split(separator).map((part) => item.parse(part)),
+      format: (value) => value.map((part) => item.format(part)).join(separator),
+    };
+  }
+
+  /**
+   * Returns a text if a check passed and throws otherwise.
+   * @param {string} text - The checked text.
+   * @param {string} name - The name of the expected type.
+   * @param {boolean} valid - The result of the check.
+   * @returns {string} The text.
+   * @throws {Error} If the check failed.
+   * @private
+   */
+  private static check(text: string, name: string, valid: boolean): string {
+    if (!valid) throw new Error(`Invalid ${name} '${text}'`);
+    return text;
+  }
+}
+
+/**
+ * Declares the types of keys. Keys not in the schema keep their text values.
+ *
+ * The value types are inferred from the key types, so a todo created with the
+ * schema is typed:
+ * ```ts
+ * const schema = new KeySchema({ estimate: KeyTypes.duration });
+ * const list = new TodoList("Write docs estimate:1h30m", { schema });
+ * list.todos[0].get("estimate"); // 90, typed as number
+ * ```
+ */
+export class KeySchema<V extends Record<string, any> = Record<string, any>> {
+  /**
+   * Creates a schema.
+   * @param {KeyTypeMap} types - The type of each key.
+   */
+  constructor(readonly types: KeyTypeMap<V>) {}
+
+  /**
+   * Checks whether the schema declares a key.
+   * @param {string} key - The key name.
+   * @returns {boolean} True if the key has a type.
+   */
+  public has(key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.types, key);
+  }
+
+  /**
+   * Checks whether a key is declared as a list type, whose array values are
+   * written as one separated value rather than as repeated keys.
+   * @param {string} key - The key name.
+   * @returns {boolean} True if the key has a list type.
+   */
+  public isList(key: string): boolean {
+    return this.has(key) && !!this.types[key].list;
+  }
+
+  /**
+   * Parses the text of a value with the type of its key.
+   * @param {string} key - The key name.
+   * @param {string} text - The text of the value.
+   * @returns {any} The typed value, or the text if the key is not declared.
+   * @throws {Error} If the text is not a valid value of the key's type.
+   */
+  public parse(key: string, text: string): any {
+    return this.has(key) ? this.types[key].parse(text) : text;
+  }
+
+  /**
+   * Formats a value with the type of its key.
+   * @param {string} key - The key name.
+   * @param {any} value - The value.
+   * @returns {string} The value as text.
+   */
+  public format(key: string, value: any): string {
+    if (this.has(key) && typeof value !== "string") {
+      return this.types[key].format(value);
+    }
+    return String(value);
+  }
+
+  /**
+   * Creates parser key handlers that validate and parse the declared keys.
+   * @returns {KeyHandler[]} One handler per declared key.
+   */
+  public toKeyHandlers(): KeyHandler[] {
+    return Object.keys(this.types).map((key) => ({
+      key,
+      validate: (text: string) => {
+        try {
+          this.parse(key, text);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      transform: (text: string) => this.parse(key, text),
+    }));
+  }
+}
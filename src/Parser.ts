@@ -6,8 +6,13 @@
  */
 
 import { Token, TokenType } from "./Token";
-import { TodoParsingError } from "./TodoParsingError";
-import { Todo } from "./Todo";
+import { DiagnosticSeverity, TodoParsingError } from "./TodoParsingError";
+import { CompletedPriority, Todo } from "./Todo";
+import { CalendarDate } from "./CalendarDate";
+import { Clock } from "./Clock";
+import { DateExpression } from "./DateExpression";
+import { KeySchema } from "./KeySchema";
+import { Scanner } from "./Scanner";
 
 /**
  * Interface for custom key handlers.
@@ -38,6 +43,65 @@ export interface ParserOptions {
 
   /** Array of custom handlers for specific keys */
   customKeyHandlers?: KeyHandler[];
+
+  /**
+   * Types of the key-value pairs. Declared keys are parsed to typed values and
+   * serialized back with their type; custom key handlers take precedence.
+   */
+  schema?: KeySchema<any>;
+
+  /**
+   * When true, the parser does not throw on errors. Failed validations,
+   * failed transformations and rejected duplicate keys keep the raw value
+   * and are collected as errors instead; see {@link Parser.getErrors}.
+   */
+  recover?: boolean;
+
+  /**
+   * How to handle dates that have the YYYY-MM-DD shape but do not exist in the
+   * calendar, such as 2026-02-30. They never become creation or completion
+   * dates or values of date keys; they are kept as text and:
+   * - "word": nothing is reported for dates of the header, and a warning for
+   *   values of date keys, whose pair would otherwise be lost silently (default)
+   * - "diagnostic": a warning is reported
+   * - "error": an error is reported, which is thrown unless recovering
+   */
+  invalidDates?: "word" | "diagnostic" | "error";
+
+  /**
+   * The grammar of keys, which should be the one of the scanner. Pairs whose
+   * key does not match are kept as text. Defaults to Scanner.KEY_PATTERNS.unicode.
+   */
+  keyPattern?: RegExp;
+
+  /** Keys whose values are validated as dates. Defaults to ["due", "t", "until"]. */
+  dateKeys?: string[];
+
+  /**
+   * When true, values of date keys such as `due:tomorrow`, `due:fri` or
+   * `t:next-month` are resolved to YYYY-MM-DD dates; see {@link DateExpression}.
+   * Offsets in `t:` such as `t:-3d` stay relative to the due date.
+   * Unrecognized values are kept as they are. The parsed todos also resolve
+   * the dates set on them later.
+   */
+  resolveDates?: boolean;
+
+  /**
+   * The date that date expressions are resolved against, in YYYY-MM-DD format.
+   * Defaults to the current date of the clock.
+   */
+  today?: string;
+
+  /** The clock providing the current date. Defaults to the global clock. */
+  clock?: Clock;
+
+  /**
+   * What happens to a priority after the completion marker, as in the legacy
+   * form `x (A) 2026-01-01 task` which the todo.txt format does not allow.
+   * Defaults to "keep", so such lines round-trip unchanged; "pri" converts
+   * the priority to a `pri:` key-value pair unless the line already has one.
+   */
+  completedPriority?: CompletedPriority;
 }
 
 /**
@@ -51,6 +115,12 @@ export class Parser {
   /** Parser configuration options */
   private options: ParserOptions;
 
+  /** Errors and warnings collected while parsing in recovering mode */
+  private errors: TodoParsingError[] = [];
+
+  /** Key handlers derived from the schema */
+  private schemaHandlers: KeyHandler[];
+
   /**
    * Creates a new Parser instance.
    * @param {Token[]} tokens - Array of tokens to parse.
@@ -61,20 +131,31 @@ export class Parser {
     this.options = {
       duplicateKeyBehavior: "overwrite",
       customKeyHandlers: [],
+      recover: false,
+      invalidDates: "word",
+      dateKeys: ["due", "t", "until"],
+      completedPriority: "keep",
       ...options,
+      keyPattern: options?.keyPattern ?? Scanner.KEY_PATTERNS.unicode,
     };
+    this.schemaHandlers = this.options.schema?.toKeyHandlers() ?? [];
   }
 
   /**
    * Parses the tokens into a Todo object.
    * @returns {Todo} The parsed Todo.
-   * @throws {TodoParsingError} If parsing fails.
+   * @throws {TodoParsingError} If parsing fails and the parser is not in recovering mode.
    */
   public parseTodo(): Todo {
-    // Reset position for each parse
+    // Reset position and collected errors for each parse
     this.pos = 0;
+    this.errors = [];
 
-    const todo = new Todo();
+    const todo = new Todo({
+      schema: this.options.schema,
+      keyPattern: this.options.keyPattern,
+      resolveDates: this.options.resolveDates,
+    });
 
     // Process optional completion marker.
     if (this.match(TokenType.COMPLETION)) {
@@ -89,67 +170,88 @@ export class Parser {
     }
 
     // Process date tokens.
-    if (this.match(TokenType.DATE)) {
+    if (this.matchDate()) {
       if (todo.completed) {
         todo.completionDate = this.currentToken()!.value;
       } else {
         todo.creationDate = this.currentToken()!.value;
       }
       this.consume();
-    }
 
-    // For completed todos, a second DATE token is the creation date.
-    if (todo.completed && this.match(TokenType.DATE)) {
-      todo.creationDate = this.currentToken()!.value;
-      this.consume();
+      // For completed todos, a second DATE token is the creation date.
+      if (todo.completed && this.matchDate()) {
+        todo.creationDate = this.currentToken()!.value;
+        this.consume();
+      }
     }
 
+    const headerLength = this.pos;
+
+    // The tokens of the source line, a copy so the caller's tokens stay unchanged
+    const source = [...this.tokens];
+
+    // Key tokens of pairs that stay part of the description
+    const textKeys = new Set<number>();
+
     // Process the rest as description tokens.
     const descriptionParts: string[] = [];
     while (!this.isAtEnd()) {
       // Handle key-value pairs.
       if (this.match(TokenType.KEY) && !this.isAtEnd(1)) {
+        const keyIndex = this.pos;
         const keyToken = this.consume();
         const keyName = keyToken.value.slice(0, -1); // Remove trailing colon.
         const valueToken = this.consume();
         let value: any = valueToken.value;
 
-        // Apply custom key handlers if available.
-        if (
-          this.options.customKeyHandlers &&
-          this.options.customKeyHandlers.length > 0
-        ) {
-          const handler = this.options.customKeyHandlers.find(
-            (h) => h.key === keyName
-          );
-          if (handler) {
-            if (handler.validate && !handler.validate(value)) {
-              throw new TodoParsingError(
-                `Validation failed for key '${keyName}' with value '${value}'`
+        // A key the todo could not write back stays plain text.
+        if (!this.options.keyPattern!.test(keyName)) {
+          descriptionParts.push(keyToken.value + valueToken.value);
+          textKeys.add(keyIndex);
+          continue;
+        }
+
+        if (this.options.dateKeys?.includes(keyName)) {
+          // An invalid date keeps the pair as plain text.
+          if (this.isInvalidDate(value, keyIndex + 1, true)) {
+            descriptionParts.push(keyToken.value + valueToken.value);
+            textKeys.add(keyIndex);
+            continue;
+          }
+          if (this.options.resolveDates) {
+            value = this.resolveDate(keyName, value);
+            if (value !== valueToken.value) {
+              // The source line keeps the resolved date, not the expression.
+              source[keyIndex + 1] = new Token(
+                TokenType.DATE,
+                value,
+                valueToken.start,
+                valueToken.end,
+                valueToken.leadingWhitespace,
+                valueToken.trailingWhitespace
               );
             }
-            if (handler.transform) {
-              value = handler.transform(value);
-            }
           }
         }
 
+        // Apply custom key handlers if available.
+        const handler = this.findKeyHandler(keyName);
+        if (handler) {
+          value = this.applyKeyHandler(handler, value, keyIndex);
+        }
+
         // Handle duplicate keys.
         if (keyName in todo.keyValues) {
           switch (this.options.duplicateKeyBehavior) {
             case "error":
-              throw new TodoParsingError(
-                `Duplicate key '${keyName}' encountered`
-              );
+              // When recovering, the first value is kept and the duplicate
+              // pair stays plain text, so saving the todo does not lose it.
+              this.report(`Duplicate key '${keyName}' encountered`, keyIndex);
+              descriptionParts.push(keyToken.value + valueToken.value);
+              textKeys.add(keyIndex);
+              break;
             case "merge":
-              if (!todo.keyValues[keyName]) {
-                todo.setKeyValue(keyName, value);
-              } else if (Array.isArray(todo.keyValues[keyName])) {
-                todo.setKeyValue(keyName, [...todo.keyValues[keyName], value]);
-              } else {
-                const existingValue = todo.keyValues[keyName];
-                todo.setKeyValue(keyName, [existingValue, value]);
-              }
+              todo.addKeyValue(keyName, value);
               break;
             case "overwrite":
             default:
@@ -160,21 +262,249 @@ export class Parser {
           todo.setKeyValue(keyName, value);
         }
       } else {
+        if (this.match(TokenType.KEY) && this.options.recover) {
+          // A key at the end of the line has no value and is kept as text.
+          this.report(
+            `Key '${this.currentToken()!.value}' has no value`,
+            this.pos,
+            "warning"
+          );
+        }
         const token = this.consume();
         descriptionParts.push(token.value);
-        // Capture projects and contexts.
+        // Capture projects, contexts and custom tags.
         if (token.type === TokenType.PROJECT) {
           todo.addProject(token.value);
         } else if (token.type === TokenType.CONTEXT) {
           todo.addContext(token.value);
+        } else if (token.type === TokenType.CUSTOM) {
+          todo.addTag(token.customType!, token.value);
         }
       }
     }
 
     todo.setDescription(descriptionParts.join(" ").trim());
+    todo.attachSource(
+      source.map((token, i) => (textKeys.has(i) ? this.asText(token) : token)),
+      headerLength
+    );
+
+    // Converting a legacy completed priority is an edit of the source line
+    if (todo.completed && todo.priority) {
+      this.convertCompletedPriority(todo);
+    }
+
     return todo;
   }
 
+  /**
+   * Parses the tokens of another line with the same options, so a single
+   * parser can be reused for all lines of a file.
+   * @param {Token[]} tokens - The tokens of the line.
+   * @returns {Todo} The parsed Todo.
+   * @throws {TodoParsingError} If parsing fails and the parser is not in recovering mode.
+   */
+  public parseTokens(tokens: Token[]): Todo {
+    this.tokens = tokens;
+    return this.parseTodo();
+  }
+
+  /**
+   * Returns the errors and warnings collected by the last call to parseTodo.
+   * Only recovering mode collects errors; otherwise they are thrown.
+   * @returns {TodoParsingError[]} The collected errors, in token order.
+   */
+  public getErrors(): TodoParsingError[] {
+    return [...this.errors];
+  }
+
+  /**
+   * Finds the handler for a key: a custom key handler, or else the handler
+   * derived from the schema.
+   * @param {string} key - The key name.
+   * @returns {KeyHandler|undefined} The handler, or undefined if the key has none.
+   * @private
+   */
+  private findKeyHandler(key: string): KeyHandler | undefined {
+    const custom = this.options.customKeyHandlers?.find((h) => h.key === key);
+    if (custom || !this.options.schema?.has(key)) return custom;
+    return this.schemaHandlers.find((h) => h.key === key);
+  }
+
+  /**
+   * Validates and transforms a value with a custom key handler.
+   * In recovering mode, a value that fails, or whose handler throws, is returned
+   * unchanged and reported.
+   * @param {KeyHandler} handler - The handler for the key.
+   * @param {string} value - The raw value.
+   * @param {number} keyIndex - Index of the key token.
+   * @returns {any} The transformed value, or the raw value if recovering from an error.
+   * @throws {TodoParsingError} If validation fails and the parser is not recovering.
+   * @private
+   */
+  private applyKeyHandler(
+    handler: KeyHandler,
+    value: string,
+    keyIndex: number
+  ): any {
+    let valid: boolean;
+    try {
+      valid = !handler.validate || handler.validate(value);
+    } catch (error) {
+      if (!this.options.recover) throw error;
+      const reason = this.reason(error);
+      this.report(
+        `Validation failed for key '${handler.key}' with value '${value}'${reason}`,
+        keyIndex
+      );
+      return value;
+    }
+    if (!valid) {
+      this.report(
+        `Validation failed for key '${handler.key}' with value '${value}'`,
+        keyIndex
+      );
+      return value;
+    }
+    if (!handler.transform) {
+      return value;
+    }
+    try {
+      return handler.transform(value);
+    } catch (error) {
+      if (!this.options.recover) throw error;
+      const reason = this.reason(error);
+      this.report(
+        `Transformation failed for key '${handler.key}' with value '${value}'${reason}`,
+        keyIndex
+      );
+      return value;
+    }
+  }
+
+  /**
+   * Describes the error thrown by a key handler for a diagnostic message.
+   * @param {unknown} error - The thrown error.
+   * @returns {string} The error message after a colon, or an empty string.
+   * @private
+   */
+  private reason(error: unknown): string {
+    return error instanceof Error ? `: ${error.message}` : "";
+  }
+
+  /**
+   * Turns a key token that stays part of the description into a word.
+   * @param {Token} token - The key token.
+   * @returns {Token} A word token with the same text and position.
+   * @private
+   */
+  private asText(token: Token): Token {
+    return new Token(
+      TokenType.WORD,
+      token.value,
+      token.start,
+      token.end,
+      token.leadingWhitespace,
+      token.trailingWhitespace
+    );
+  }
+
+  /**
+   * Applies the completedPriority option to a completed todo with a priority.
+   * @param {Todo} todo - The parsed todo.
+   * @private
+   */
+  private convertCompletedPriority(todo: Todo): void {
+    const policy = this.options.completedPriority;
+    if (policy === "keep") return;
+    if (policy === "pri" && !("pri" in todo.keyValues)) {
+      todo.setKeyValue("pri", todo.priority!.charAt(1));
+    }
+    todo.setPriority(null);
+  }
+
+  /**
+   * Checks if the current token is a date. A word that only has the shape of
+   * a date is reported according to the invalidDates option.
+   * @returns {boolean} True if the current token is a valid date.
+   * @private
+   */
+  private matchDate(): boolean {
+    if (this.match(TokenType.DATE)) return true;
+    const token = this.currentToken();
+    if (token && token.type === TokenType.WORD) {
+      this.isInvalidDate(token.value, this.pos);
+    }
+    return false;
+  }
+
+  /**
+   * Checks if a value has the YYYY-MM-DD shape but does not exist in the
+   * calendar, and reports it according to the invalidDates option.
+   * @param {string} value - The value to check.
+   * @param {number} tokenIndex - Index of the token holding the value.
+   * @param {boolean} [keyValue=false] - Whether the value is the value of a date key.
+   * @returns {boolean} True if the value is an invalid date.
+   * @throws {TodoParsingError} If invalid dates are errors and the parser is not recovering.
+   * @private
+   */
+  private isInvalidDate(
+    value: string,
+    tokenIndex: number,
+    keyValue: boolean = false
+  ): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || CalendarDate.isValid(value)) {
+      return false;
+    }
+
+    const message = `Invalid date '${value}'`;
+    if (
+      this.options.invalidDates === "diagnostic" ||
+      (this.options.invalidDates === "word" && keyValue)
+    ) {
+      this.report(message, tokenIndex, "warning");
+    } else if (this.options.invalidDates === "error") {
+      this.report(message, tokenIndex);
+    }
+    return true;
+  }
+
+  /**
+   * Resolves a date expression in the value of a date key.
+   * @param {string} key - The key name.
+   * @param {string} value - The raw value.
+   * @returns {string} The resolved date, or the raw value if it is not a date expression.
+   * @private
+   */
+  private resolveDate(key: string, value: string): string {
+    // Offsets in t: are relative to the due date
+    if (key === "t" && DateExpression.isOffset(value)) return value;
+
+    const today =
+      this.options.today ?? (this.options.clock ?? Clock.getDefault()).today();
+    return DateExpression.resolve(value, today) ?? value;
+  }
+
+  /**
+   * Reports a parsing problem. Errors are thrown unless the parser is recovering.
+   * @param {string} message - Description of the problem.
+   * @param {number} tokenIndex - Index of the offending token.
+   * @param {DiagnosticSeverity} [severity="error"] - Severity of the problem.
+   * @throws {TodoParsingError} If the problem is an error and the parser is not recovering.
+   * @private
+   */
+  private report(
+    message: string,
+    tokenIndex: number,
+    severity: DiagnosticSeverity = "error"
+  ): void {
+    const error = new TodoParsingError(message, tokenIndex, severity);
+    if (severity === "error" && !this.options.recover) {
+      throw error;
+    }
+    this.errors.push(error);
+  }
+
   /**
    * Checks if the current token matches a given type.
    * @param {TokenType} type - The token type to check for.
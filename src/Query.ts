@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Provides the Query class, a compiled filter query over todos.
+ * Queries are written in a todo.sh/topydo style language, for example
+ * `+work -@phone due:<2026-11-01 pri:A..C "invoice" OR @home`.
+ * @module Query
+ */
+
+import { QueryScanner } from "./QueryScanner";
+import { QueryNode, QueryParser } from "./QueryParser";
+import { Todo } from "./Todo";
+import { CalendarDate } from "./CalendarDate";
+import { DateExpression } from "./DateExpression";
+import { Clock } from "./Clock";
+
+/**
+ * Configuration options for evaluating a query.
+ */
+export interface QueryOptions {
+  /**
+   * The date that relative dates such as `today+3` are resolved against,
+   * in YYYY-MM-DD format. Defaults to the current date of the clock.
+   */
+  today?: string;
+
+  /** The clock providing the current date. Defaults to the global clock. */
+  clock?: Clock;
+
+  /**
+   * The grammar of keys of key-value comparisons, as in
+   * {@link ScannerOptions.keyPattern}. Defaults to {@link Scanner.KEY_PATTERNS}.unicode.
+   */
+  keyPattern?: RegExp;
+}
+
+/**
+ * A compiled filter query.
+ *
+ * Supported terms:
+ * - `+project`, `@context`: the todo has the project or context
+ * - `word`, `"quoted text"`: case-insensitive match in the description
+ * - `key:value`, `key:<value`, `key:<=value`, `key:>value`, `key:>=value`:
+ *   comparisons on key-value pairs; numbers compare numerically, other values as text
+ * - `key:low..high`: inclusive range
+ * - `key:*`: the key is present
+ * - `pri:`, `created:`, `completed:`: priority letter, creation and completion date;
+ *   the priority of a completed todo may also come from its `pri:` pair
+ * - `t:`: the threshold date, with relative thresholds resolved against the due date
+ * - `is:done`, `is:open`, `is:overdue`: completion state
+ * - `is:actionable`, `is:future`: open todos whose threshold date has or has not been reached
+ *
+ * Values compared with dates may be date expressions such as `tomorrow`, `fri`,
+ * `eom` or `today+3`; see {@link DateExpression}.
+ *
+ * Terms are combined with `AND` (or just a space), `OR`, `NOT` (or a leading `-`)
+ * and parentheses.
+ */
+export class Query {
+  /** The root node of the query syntax tree */
+  readonly ast: QueryNode;
+
+  /** Query configuration options */
+  private options: QueryOptions;
+
+  /**
+   * Compiles a query string.
+   * @param {string} source - The query string.
+   * @param {QueryOptions} [options] - Optional configuration.
+   * @throws {QuerySyntaxError} If the query is malformed.
+   */
+  constructor(readonly source: string, options?: QueryOptions) {
+    this.options = { ...options };
+    const tokens = new QueryScanner({
+      keyPattern: this.options.keyPattern,
+    }).scan(source);
+    this.ast = new QueryParser(tokens).parseQuery();
+  }
+
+  /**
+   * Checks whether a todo matches the query.
+   * @param {Todo} todo - The todo to test.
+   * @returns {boolean} True if the todo matches.
+   */
+  public matches(todo: Todo): boolean {
+    return this.evaluate(this.ast, todo, this.getToday());
+  }
+
+  /**
+   * Returns the todos that match the query, in their original order.
+   * @param {Todo[]} todos - The todos to filter.
+   * @returns {Todo[]} The matching todos.
+   */
+  public filter<T extends Todo<any>>(todos: T[]): T[] {
+    const today = this.getToday();
+    return todos.filter((todo) => this.evaluate(this.ast, todo, today));
+  }
+
+  /**
+   * Returns the query as a plain predicate function, e.g. for `Array.filter`.
+   * @returns {function} A function that returns true for matching todos.
+   */
+  public toPredicate(): (todo: Todo) => boolean {
+    return (todo) => this.matches(todo);
+  }
+
+  /**
+   * Evaluates a node of the syntax tree against a todo.
+   * @param {QueryNode} node - The node to evaluate.
+   * @param {Todo} todo - The todo to test.
+   * @param {string} today - Today's date in YYYY-MM-DD format.
+   * @returns {boolean} True if the todo matches the node.
+   * @private
+   */
+  private evaluate(node: QueryNode, todo: Todo, today: string): boolean {
+    switch (node.type) {
+      case "and":
+        return node.children.every((child) =>
+          this.evaluate(child, todo, today)
+        );
+      case "or":
+        return node.children.some((child) => this.evaluate(child, todo, today));
+      case "not":
+        return !this.evaluate(node.child, todo, today);
+      case "project":
+        return todo.projects.includes(node.value);
+      case "context":
+        return todo.contexts.includes(node.value);
+      case "text":
+        return todo.description
+          .toLowerCase()
+          .includes(node.value.toLowerCase());
+      case "comparison":
+        if (node.key === "is") {
+          return this.matchesState(node.value, todo, today);
+        }
+        return this.matchesComparison(node, todo, today);
+    }
+  }
+
+  /**
+   * Evaluates an `is:` term.
+   * @param {string} state - The state name.
+   * @param {Todo} todo - The todo to test.
+   * @param {string} today - Today's date in YYYY-MM-DD format.
+   * @returns {boolean} True if the todo is in the given state.
+   * @private
+   */
+  private matchesState(state: string, todo: Todo, today: string): boolean {
+    switch (state.toLowerCase()) {
+      case "done":
+      case "completed":
+        return todo.completed;
+      case "open":
+      case "active":
+        return !todo.completed;
+      case "overdue": {
+        const due = this.getFieldValues(todo, "due")[0];
+        return !todo.completed && !!due && due < today;
+      }
+      case "actionable":
+        return todo.isActionable(today);
+      case "future": {
+        const threshold = todo.getThresholdDate();
+        return !todo.completed && !!threshold && threshold > today;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Evaluates a key-value comparison. A todo without the key never matches.
+   * @param {QueryNode} node - The comparison node.
+   * @param {Todo} todo - The todo to test.
+   * @param {string} today - Today's date in YYYY-MM-DD format.
+   * @returns {boolean} True if any value of the key satisfies the comparison.
+   * @private
+   */
+  private matchesComparison(
+    node: Extract<QueryNode, { type: "comparison" }>,
+    todo: Todo,
+    today: string
+  ): boolean {
+    const values = this.getFieldValues(todo, node.key);
+    if (node.operator === "exists") {
+      return values.length > 0;
+    }
+
+    const target = this.resolveValue(node.key, node.value, today);
+    const upper = this.resolveValue(node.key, node.upper ?? "", today);
+
+    return values.some((value) => {
+      // Date expressions only stand for dates when compared with a date
+      const side = CalendarDate.isValid(value) ? "date" : "text";
+      const order = this.compareValues(value, target[side]);
+      switch (node.operator) {
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+        case "range":
+          return order >= 0 && this.compareValues(value, upper[side]) <= 0;
+        case "=":
+        default:
+          return order === 0;
+      }
+    });
+  }
+
+  /**
+   * Returns the values of a field as text. Multi-valued keys return one entry per value.
+   * @param {Todo} todo - The todo.
+   * @param {string} key - The key name, or one of "pri", "created" and "completed".
+   * The "t" key returns the resolved threshold date.
+   * @returns {string[]} The values, empty if the field is not set.
+   * @private
+   */
+  private getFieldValues(todo: Todo, key: string): string[] {
+    let value: any;
+    switch (key) {
+      case "pri":
+        // A completed todo may keep its priority in a pri: pair
+        value = todo.priority
+          ? todo.priority.charAt(1)
+          : todo.completed && typeof todo.keyValues["pri"] === "string"
+          ? todo.keyValues["pri"].toUpperCase()
+          : undefined;
+        break;
+      case "created":
+        value = todo.creationDate;
+        break;
+      case "completed":
+        value = todo.completionDate;
+        break;
+      case "t":
+        value = todo.getThresholdDate();
+        break;
+      default:
+        value = todo.keyValues[key];
+    }
+
+    if (value === undefined || value === null) return [];
+    const values = Array.isArray(value) ? value : [value];
+    return values.map((v) =>
+      v instanceof Date ? v.toISOString().split("T")[0] : String(v)
+    );
+  }
+
+  /**
+   * Resolves a query value, normalizing priorities and resolving date
+   * expressions with {@link DateExpression}.
+   * @param {string} key - The key the value is compared with.
+   * @param {string} value - The value as written in the query.
+   * @param {string} today - Today's date in YYYY-MM-DD format.
+   * @returns {Object} The value to compare with text, and the value to
+   * compare with dates.
+   * @private
+   */
+  private resolveValue(
+    key: string,
+    value: string,
+    today: string
+  ): { text: string; date: string } {
+    if (key === "pri") {
+      const text = value.toUpperCase();
+      return { text, date: text };
+    }
+    return { text: value, date: DateExpression.resolve(value, today) ?? value };
+  }
+
+  /**
+   * Compares two values, numerically if both are numbers and as text otherwise.
+   * @param {string} a - First value.
+   * @param {string} b - Second value.
+   * @returns {number} Negative if a < b, positive if a > b, zero if equal.
+   * @private
+   */
+  private compareValues(a: string, b: string): number {
+    const numA = Number(a);
+    const numB = Number(b);
+    if (a.trim() !== "" && b.trim() !== "" && !isNaN(numA) && !isNaN(numB)) {
+      return numA - numB;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * Gets the date relative dates are resolved against.
+   * @returns {string} Today's date in YYYY-MM-DD format.
+   * @private
+   */
+  private getToday(): string {
+    return (
+      this.options.today ?? (this.options.clock ?? Clock.getDefault()).today()
+    );
+  }
+}
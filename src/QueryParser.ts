@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Provides the QueryParser class for converting query tokens into a syntax tree.
+ * This file includes the QueryParser class and the node types of the query syntax tree.
+ * @module QueryParser
+ */
+
+import { QueryToken, QueryTokenType } from "./QueryToken";
+import { QuerySyntaxError } from "./QuerySyntaxError";
+
+/**
+ * Operators of a key-value comparison:
+ * - "=": equal (`due:2026-11-01`)
+ * - "<", "<=", ">", ">=": ordering (`due:<today`)
+ * - "range": inclusive range (`pri:A..C`)
+ * - "exists": the key is present (`due:*`)
+ */
+export type ComparisonOperator =
+  | "="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "range"
+  | "exists";
+
+/**
+ * A node of the query syntax tree.
+ */
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "project"; value: string }
+  | { type: "context"; value: string }
+  | { type: "text"; value: string }
+  | {
+      type: "comparison";
+      key: string;
+      operator: ComparisonOperator;
+      value: string;
+      /** Upper bound, only set for the "range" operator */
+      upper?: string;
+    };
+
+/**
+ * QueryParser class that converts query tokens into a syntax tree.
+ *
+ * Grammar, from lowest to highest precedence:
+ * ```
+ * query   := and ( "OR" and )*
+ * and     := unary ( "AND"? unary )*
+ * unary   := ( "NOT" | "-" ) unary | primary
+ * primary := "(" query ")" | +project | @context | key:value | "text" | word
+ * ```
+ * Terms next to each other are combined with AND.
+ */
+export class QueryParser {
+  /** Current position in the token stream */
+  private pos: number = 0;
+
+  /**
+   * Creates a new QueryParser instance.
+   * @param {QueryToken[]} tokens - Array of tokens to parse.
+   */
+  constructor(private tokens: QueryToken[]) {}
+
+  /**
+   * Parses the tokens into a query syntax tree.
+   * An empty query is an AND without children and matches every todo.
+   * @returns {QueryNode} The root node of the syntax tree.
+   * @throws {QuerySyntaxError} If the query is malformed.
+   */
+  public parseQuery(): QueryNode {
+    this.pos = 0;
+
+    if (this.isAtEnd()) {
+      return { type: "and", children: [] };
+    }
+
+    const node = this.parseOr();
+    if (!this.isAtEnd()) {
+      const token = this.currentToken()!;
+      throw new QuerySyntaxError(`Unexpected '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  /**
+   * Parses terms separated by OR.
+   * @returns {QueryNode} The parsed node.
+   * @private
+   */
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.match(QueryTokenType.OR)) {
+      this.consume();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  /**
+   * Parses terms separated by AND or written next to each other.
+   * @returns {QueryNode} The parsed node.
+   * @private
+   */
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    while (
+      !this.isAtEnd() &&
+      !this.match(QueryTokenType.OR) &&
+      !this.match(QueryTokenType.RPAREN)
+    ) {
+      if (this.match(QueryTokenType.AND)) {
+        this.consume();
+      }
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  /**
+   * Parses a possibly negated term.
+   * @returns {QueryNode} The parsed node.
+   * @private
+   */
+  private parseUnary(): QueryNode {
+    if (this.match(QueryTokenType.NOT)) {
+      this.consume();
+      return { type: "not", child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  /**
+   * Parses a group or a single term.
+   * @returns {QueryNode} The parsed node.
+   * @throws {QuerySyntaxError} If no term follows.
+   * @private
+   */
+  private parsePrimary(): QueryNode {
+    const token = this.currentToken();
+    if (!token) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw new QuerySyntaxError(
+        "Unexpected end of query",
+        last ? last.position + last.value.length : 0
+      );
+    }
+
+    switch (token.type) {
+      case QueryTokenType.LPAREN: {
+        this.consume();
+        const node = this.parseOr();
+        if (!this.match(QueryTokenType.RPAREN)) {
+          throw new QuerySyntaxError("Missing ')'", token.position);
+        }
+        this.consume();
+        return node;
+      }
+      case QueryTokenType.PROJECT:
+        this.consume();
+        return { type: "project", value: token.value };
+      case QueryTokenType.CONTEXT:
+        this.consume();
+        return { type: "context", value: token.value };
+      case QueryTokenType.KEY_VALUE:
+        this.consume();
+        return this.parseComparison(token);
+      case QueryTokenType.TEXT:
+      case QueryTokenType.WORD:
+        this.consume();
+        return { type: "text", value: token.value };
+      default:
+        throw new QuerySyntaxError(
+          `Unexpected '${token.value}'`,
+          token.position
+        );
+    }
+  }
+
+  /**
+   * Splits a key-value token into key, operator and value(s).
+   * @param {QueryToken} token - The KEY_VALUE token.
+   * @returns {QueryNode} The comparison node.
+   * @throws {QuerySyntaxError} If the operator has no value.
+   * @private
+   */
+  private parseComparison(token: QueryToken): QueryNode {
+    const colonIndex = token.value.indexOf(":");
+    const key = token.value.substring(0, colonIndex);
+    const rest = token.value.substring(colonIndex + 1);
+
+    if (rest === "*") {
+      return { type: "comparison", key, operator: "exists", value: "" };
+    }
+
+    for (const operator of ["<=", ">=", "<", ">", "="] as const) {
+      if (rest.startsWith(operator)) {
+        const value = rest.substring(operator.length);
+        if (!value) {
+          throw new QuerySyntaxError(
+            `Missing value after '${key}:${operator}'`,
+            token.position
+          );
+        }
+        return { type: "comparison", key, operator, value };
+      }
+    }
+
+    const rangeIndex = rest.indexOf("..");
+    if (rangeIndex !== -1) {
+      const value = rest.substring(0, rangeIndex);
+      const upper = rest.substring(rangeIndex + 2);
+      if (!value || !upper) {
+        throw new QuerySyntaxError(
+          `Incomplete range in '${token.value}'`,
+          token.position
+        );
+      }
+      return { type: "comparison", key, operator: "range", value, upper };
+    }
+
+    return { type: "comparison", key, operator: "=", value: rest };
+  }
+
+  /**
+   * Checks if the current token matches a given type.
+   * @param {QueryTokenType} type - The token type to check for.
+   * @returns {boolean} True if current token matches the type.
+   * @private
+   */
+  private match(type: QueryTokenType): boolean {
+    const token = this.currentToken();
+    return token !== null && token.type === type;
+  }
+
+  /**
+   * Returns true if there are no more tokens.
+   * @returns {boolean} True if position is past end of tokens.
+   * @private
+   */
+  private isAtEnd(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  /**
+   * Returns the current token or null if out of bounds.
+   * @returns {QueryToken|null} Current token or null.
+   * @private
+   */
+  private currentToken(): QueryToken | null {
+    return this.pos < this.tokens.length ? this.tokens[this.pos] : null;
+  }
+
+  /**
+   * Returns the current token and advances the pointer.
+   * @returns {QueryToken} Current token before advancing.
+   * @private
+   */
+  private consume(): QueryToken {
+    return this.tokens[this.pos++];
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Provides the QueryScanner class for tokenizing filter queries.
+ * The QueryScanner breaks down a query string into tokens for the QueryParser.
+ * @module QueryScanner
+ */
+
+import { QueryToken, QueryTokenType } from "./QueryToken";
+import { QuerySyntaxError } from "./QuerySyntaxError";
+import { Scanner } from "./Scanner";
+
+/**
+ * Configuration options for the QueryScanner.
+ */
+export interface QueryScannerOptions {
+  /**
+   * The grammar of keys of key-value comparisons, as in
+   * {@link ScannerOptions.keyPattern}. Defaults to {@link Scanner.KEY_PATTERNS}.unicode.
+   */
+  keyPattern?: RegExp;
+}
+
+/**
+ * QueryScanner class that splits query strings into tokens.
+ * Identifies parentheses, boolean operators, negation, projects, contexts,
+ * key-value comparisons, quoted text and plain words.
+ */
+export class QueryScanner {
+  /** QueryScanner configuration options */
+  private options: QueryScannerOptions;
+
+  /**
+   * Creates a new QueryScanner instance.
+   * @param {QueryScannerOptions} [options] - Optional configuration.
+   */
+  constructor(options?: QueryScannerOptions) {
+    this.options = {
+      ...options,
+      keyPattern: options?.keyPattern ?? Scanner.KEY_PATTERNS.unicode,
+    };
+  }
+
+  /**
+   * Scans a query string and produces an array of tokens.
+   * @param {string} query - The query to scan.
+   * @returns {QueryToken[]} Array of tokens representing the query.
+   * @throws {QuerySyntaxError} If a quoted string is not terminated.
+   */
+  public scan(query: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+      const char = query[i];
+
+      if (this.isWhitespace(char)) {
+        i++;
+      } else if (char === "(") {
+        tokens.push(new QueryToken(QueryTokenType.LPAREN, char, i));
+        i++;
+      } else if (char === ")") {
+        tokens.push(new QueryToken(QueryTokenType.RPAREN, char, i));
+        i++;
+      } else if (char === '"') {
+        const quoted = this.readQuoted(query, i);
+        tokens.push(new QueryToken(QueryTokenType.TEXT, quoted.text, i));
+        i = quoted.end;
+      } else if (
+        char === "-" &&
+        i + 1 < query.length &&
+        !this.isWhitespace(query[i + 1])
+      ) {
+        // A leading dash negates the term that follows it
+        tokens.push(new QueryToken(QueryTokenType.NOT, char, i));
+        i++;
+      } else {
+        const start = i;
+        let word = "";
+        while (
+          i < query.length &&
+          !this.isWhitespace(query[i]) &&
+          query[i] !== "(" &&
+          query[i] !== ")"
+        ) {
+          if (query[i] === '"') {
+            // Quoted parts inside a word, as in note:"two words"
+            const quoted = this.readQuoted(query, i);
+            word += quoted.text;
+            i = quoted.end;
+          } else {
+            word += query[i++];
+          }
+        }
+        tokens.push(this.classifyWord(word, start));
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Classifies an unquoted word.
+   * @param word - The word to classify
+   * @param position - Offset of the word in the query
+   * @returns The classified token
+   * @private
+   */
+  private classifyWord(word: string, position: number): QueryToken {
+    if (word === "AND") {
+      return new QueryToken(QueryTokenType.AND, word, position);
+    } else if (word === "OR") {
+      return new QueryToken(QueryTokenType.OR, word, position);
+    } else if (word === "NOT") {
+      return new QueryToken(QueryTokenType.NOT, word, position);
+    } else if (word.length > 1 && word[0] === "+") {
+      return new QueryToken(QueryTokenType.PROJECT, word, position);
+    } else if (word.length > 1 && word[0] === "@") {
+      return new QueryToken(QueryTokenType.CONTEXT, word, position);
+    } else if (this.isKeyValue(word)) {
+      return new QueryToken(QueryTokenType.KEY_VALUE, word, position);
+    }
+    return new QueryToken(QueryTokenType.WORD, word, position);
+  }
+
+  /**
+   * Reads a double-quoted string. A backslash escapes the next character.
+   * @param query - The query string
+   * @param start - Offset of the opening quote
+   * @returns The unquoted text and the offset after the closing quote
+   * @throws {QuerySyntaxError} If the closing quote is missing
+   * @private
+   */
+  private readQuoted(
+    query: string,
+    start: number
+  ): { text: string; end: number } {
+    let text = "";
+    for (let i = start + 1; i < query.length; i++) {
+      if (query[i] === "\\" && i + 1 < query.length) {
+        text += query[++i];
+      } else if (query[i] === '"') {
+        return { text, end: i + 1 };
+      } else {
+        text += query[i];
+      }
+    }
+    throw new QuerySyntaxError("Unterminated quoted string", start);
+  }
+
+  /**
+   * Checks if a word is a key-value comparison (key:value)
+   * @param word - Word to check
+   * @returns True if it starts with a key matching the key pattern, followed by a colon and a value
+   * @private
+   */
+  private isKeyValue(word: string): boolean {
+    const colonIndex = word.indexOf(":");
+    if (colonIndex <= 0 || colonIndex === word.length - 1) return false;
+    return this.options.keyPattern!.test(word.slice(0, colonIndex));
+  }
+
+  /**
+   * Checks if a character is whitespace
+   * @param char - Character to check
+   * @returns True if it's whitespace
+   * @private
+   */
+  private isWhitespace(char: string): boolean {
+    return char === " " || char === "\t";
+  }
+}
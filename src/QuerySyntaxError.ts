@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Provides the QuerySyntaxError class for invalid filter queries.
+ * @module QuerySyntaxError
+ */
+
+/**
+ * Error class for query syntax errors.
+ * Extends the standard Error class with the position in the query string
+ * where the error occurred.
+ */
+export class QuerySyntaxError extends Error {
+  /** The offset in the query string where the error occurred */
+  public position: number;
+
+  /**
+   * Creates a new QuerySyntaxError.
+   * @param {string} message - Error message.
+   * @param {number} position - Offset in the query string where the error occurred.
+   */
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "QuerySyntaxError";
+    this.position = position;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Defines token types and the QueryToken class for the query language.
+ * These tokens represent the syntactic elements of a filter query such as
+ * `+work -@phone due:<2026-11-01 "invoice" OR @home`.
+ * @module QueryToken
+ */
+
+/**
+ * Enum representing the different types of tokens in a query.
+ */
+export enum QueryTokenType {
+  /** Opening parenthesis "(" */
+  LPAREN,
+
+  /** Closing parenthesis ")" */
+  RPAREN,
+
+  /** Boolean operator "AND" */
+  AND,
+
+  /** Boolean operator "OR" */
+  OR,
+
+  /** Negation "NOT" or a leading "-" */
+  NOT,
+
+  /** Project term starting with "+" */
+  PROJECT,
+
+  /** Context term starting with "@" */
+  CONTEXT,
+
+  /** Key-value comparison such as "due:<today" or "pri:A..C" */
+  KEY_VALUE,
+
+  /** Quoted text "like this" */
+  TEXT,
+
+  /** Any other word, matched as free text */
+  WORD,
+}
+
+/**
+ * Class representing a token in a query.
+ */
+export class QueryToken {
+  /**
+   * Creates a new QueryToken.
+   * @param {QueryTokenType} type - The type of the token.
+   * @param {string} value - The string value of the token (without quotes for TEXT).
+   * @param {number} position - Offset of the token in the query string.
+   */
+  constructor(
+    public type: QueryTokenType,
+    public value: string,
+    public position: number
+  ) {}
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Provides the Recurrence class for parsing, serializing and evaluating recurrence rules.
+ * Rules are stored in the `rec:` key of a todo using a compact, whitespace-free
+ * encoding, e.g. `rec:+1w/mo,th` or `rec:1m/-1fr`.
+ * @module Recurrence
+ */
+
+import { CalendarDate } from "./CalendarDate";
+import { RecurrencePattern } from "./Todo";
+
+/** Weekday codes in the order of Date.getUTCDay() */
+const WEEKDAY_CODES = ["su", "mo", "tu", "we", "th", "fr", "sa"];
+
+/** Recurrence types by their unit character */
+const UNIT_TYPES: { [unit: string]: RecurrencePattern["type"] } = {
+  d: "daily",
+  b: "business",
+  w: "weekly",
+  m: "monthly",
+  y: "yearly",
+};
+
+/** Milliseconds per day */
+const DAY = 86400000;
+
+/**
+ * A recurrence rule.
+ *
+ * Encoding: `[+]<interval><unit>[/<by>]` where unit is d (days), b (business
+ * days), w (weeks), m (months) or y (years). A leading `+` marks a strict rule.
+ * The optional by-part selects days within the period:
+ * - weekly: weekday codes, e.g. `1w/mo,th` (every Monday and Thursday)
+ * - monthly: a day of the month, e.g. `1m/15`, or `1m/-1` for the last day
+ * - monthly: the nth weekday, e.g. `1m/2tu` (2nd Tuesday) or `1m/-1fr` (last Friday)
+ *
+ * Days that do not exist in a month are clamped to its last day, so
+ * January 31 plus one month is February 28 (or 29). The occurrences after it
+ * return to the original day, March 31.
+ */
+export class Recurrence {
+  /**
+   * Creates a recurrence from a pattern.
+   * @param {RecurrencePattern} pattern - The recurrence pattern.
+   */
+  constructor(readonly pattern: RecurrencePattern) {}
+
+  /**
+   * Parses an encoded rule.
+   * @param {string} value - The encoded rule, e.g. "+1w/mo,th".
+   * @returns {Recurrence|undefined} The recurrence, or undefined if the rule is invalid.
+   */
+  static parse(value: string): Recurrence | undefined {
+    const match = value.match(/^(\+)?(\d+)([dbwmy])(?:\/(.+))?$/i);
+    if (!match) return undefined;
+
+    const interval = parseInt(match[2]);
+    if (interval < 1) return undefined;
+
+    const pattern: RecurrencePattern = {
+      type: UNIT_TYPES[match[3].toLowerCase()],
+      interval,
+    };
+    if (match[1]) pattern.strict = true;
+
+    const by = match[4]?.toLowerCase();
+    if (by !== undefined) {
+      if (pattern.type === "weekly") {
+        const weekdays = by
+          .split(",")
+          .map((code) => WEEKDAY_CODES.indexOf(code));
+        if (weekdays.includes(-1)) return undefined;
+        pattern.weekdays = [...new Set(weekdays)].sort((a, b) => a - b);
+      } else if (pattern.type === "monthly") {
+        const day = by.match(/^(-1|[1-9]|[12]\d|3[01])$/);
+        const nth = by.match(/^(-1|[1-5])(su|mo|tu|we|th|fr|sa)$/);
+        if (day) {
+          pattern.monthDay = parseInt(day[1]);
+        } else if (nth) {
+          pattern.nthWeekday = {
+            n: parseInt(nth[1]),
+            weekday: WEEKDAY_CODES.indexOf(nth[2]),
+          };
+        } else {
+          return undefined;
+        }
+      } else {
+        return undefined;
+      }
+    }
+
+    return new Recurrence(pattern);
+  }
+
+  /**
+   * Encodes the rule for the `rec:` key.
+   * @returns {string} The encoded rule.
+   */
+  toString(): string {
+    const { strict, interval, type, weekdays, monthDay, nthWeekday } =
+      this.pattern;
+    let value = `${strict ? "+" : ""}${interval}${type.charAt(0)}`;
+
+    if (type === "weekly" && weekdays && weekdays.length > 0) {
+      value += `/${weekdays.map((day) => WEEKDAY_CODES[day]).join(",")}`;
+    } else if (type === "monthly" && monthDay !== undefined) {
+      value += `/${monthDay}`;
+    } else if (type === "monthly" && nthWeekday) {
+      value += `/${nthWeekday.n}${WEEKDAY_CODES[nthWeekday.weekday]}`;
+    }
+
+    return value;
+  }
+
+  /**
+   * Computes the first occurrence after a date.
+   * @param {string} date - The date in YYYY-MM-DD format.
+   * @param {number} [day] - The day of the month a monthly rule without a
+   * by-part recurs on. Defaults to the day of `date`; pass the original day
+   * when `date` was clamped to the end of a shorter month.
+   * @returns {string} The next occurrence in YYYY-MM-DD format.
+   */
+  next(date: string, day?: number): string {
+    const { type, interval, weekdays, monthDay, nthWeekday } = this.pattern;
+    const start = CalendarDate.toTime(date);
+
+    switch (type) {
+      case "daily":
+        return CalendarDate.fromTime(start + interval * DAY);
+      case "business":
+        return CalendarDate.addBusinessDays(date, interval);
+      case "weekly":
+        if (weekdays && weekdays.length > 0) {
+          return CalendarDate.fromTime(this.nextWeekday(start, weekdays));
+        }
+        return CalendarDate.fromTime(start + interval * 7 * DAY);
+      case "monthly": {
+        const d = new Date(start);
+        let year = d.getUTCFullYear();
+        let month = d.getUTCMonth();
+        if (monthDay !== undefined || nthWeekday) {
+          // The selected day of the current month may still be ahead
+          const current = this.dayInMonth(year, month, d.getUTCDate());
+          if (current > start) return CalendarDate.fromTime(current);
+        }
+        month += interval;
+        year += Math.floor(month / 12);
+        month = ((month % 12) + 12) % 12;
+        return CalendarDate.fromTime(
+          this.dayInMonth(year, month, day ?? d.getUTCDate())
+        );
+      }
+      case "yearly":
+        return CalendarDate.add(date, interval, "y");
+    }
+  }
+
+  /**
+   * Lists the occurrences following a date, e.g. for calendar previews.
+   * @param {string} date - The date to start after, in YYYY-MM-DD format.
+   * @param {number} count - The maximum number of occurrences.
+   * @param {string} [until] - The last allowed date in YYYY-MM-DD format.
+   * @returns {string[]} The occurrences in YYYY-MM-DD format.
+   */
+  occurrences(date: string, count: number, until?: string): string[] {
+    const result: string[] = [];
+    const day = new Date(CalendarDate.toTime(date)).getUTCDate();
+    let current = date;
+    while (result.length < count) {
+      current = this.next(current, day);
+      if (until !== undefined && current > until) break;
+      result.push(current);
+    }
+    return result;
+  }
+
+  /**
+   * Finds the next selected weekday after a date, skipping to the next
+   * period of the interval once the current week has no more matches.
+   * @param {number} start - The date as a UTC timestamp.
+   * @param {number[]} weekdays - The selected weekdays (0 = Sunday).
+   * @returns {number} The next occurrence as a UTC timestamp.
+   * @private
+   */
+  private nextWeekday(start: number, weekdays: number[]): number {
+    // Weeks start on Monday
+    const weekStart = start - ((new Date(start).getUTCDay() + 6) % 7) * DAY;
+    for (let time = start + DAY; time < weekStart + 7 * DAY; time += DAY) {
+      if (weekdays.includes(new Date(time).getUTCDay())) return time;
+    }
+
+    const nextWeek = weekStart + this.pattern.interval * 7 * DAY;
+    for (let time = nextWeek; ; time += DAY) {
+      if (weekdays.includes(new Date(time).getUTCDay())) return time;
+    }
+  }
+
+  /**
+   * Computes the selected day of a month.
+   * @param {number} year - The year.
+   * @param {number} month - The month (0-based).
+   * @param {number} day - The day to use when the rule selects no specific day.
+   * @returns {number} The date as a UTC timestamp.
+   * @private
+   */
+  private dayInMonth(year: number, month: number, day: number): number {
+    const { monthDay, nthWeekday } = this.pattern;
+    const lastDay = CalendarDate.daysInMonth(year, month);
+
+    if (nthWeekday) {
+      const { n, weekday } = nthWeekday;
+      if (n === -1) {
+        const last = Date.UTC(year, month, lastDay);
+        const back = (new Date(last).getUTCDay() - weekday + 7) % 7;
+        return last - back * DAY;
+      }
+      const first = Date.UTC(year, month, 1);
+      const ahead = (weekday - new Date(first).getUTCDay() + 7) % 7;
+      // A fifth weekday that does not exist falls back to the last one
+      const date = Math.min(1 + ahead + (n - 1) * 7, lastDay);
+      return Date.UTC(year, month, date - ((date - 1 - ahead) % 7));
+    }
+
+    if (monthDay === -1) return Date.UTC(year, month, lastDay);
+    return CalendarDate.toTime(
+      CalendarDate.fromParts(year, month, monthDay ?? day)
+    );
+  }
+}
@@ -6,16 +6,145 @@
  */
 
 import { Token, TokenType } from "./Token";
+import { CalendarDate } from "./CalendarDate";
+
+/**
+ * A whitespace-separated part of a line together with its position.
+ * @private
+ */
+interface LinePart {
+  /** The text of the part */
+  text: string;
+
+  /** Offset of the first character of the part */
+  start: number;
+
+  /** Offset just past the last character of the part */
+  end: number;
+
+  /** The whitespace directly before the part */
+  leadingWhitespace: string;
+}
+
+/**
+ * A rule recognizing words as tokens of a custom type, such as `#hashtags`.
+ * Parsed todos collect these tokens in their tags; see {@link Todo.tags}.
+ */
+export interface TokenRule {
+  /** Name of the token type, e.g. "hashtag" */
+  type: string;
+
+  /** The pattern a word has to match, or a test of the word */
+  match: RegExp | ((word: string) => boolean);
+
+  /**
+   * Rules with a priority above 0 are tried before the built-in rules, so
+   * they can claim words such as `+1` or `re:thing`. Other rules only see
+   * words that would otherwise be plain words. Rules with a higher priority
+   * are tried first. Defaults to 0.
+   */
+  priority?: number;
+
+  /**
+   * Where the token may appear: the index of the word in the line, such as 0
+   * for the first word, or a test of the index and all words of the line.
+   * Defaults to anywhere.
+   */
+  position?: number | ((index: number, words: string[]) => boolean);
+}
+
+/**
+ * Configuration options for the scanner.
+ */
+export interface ScannerOptions {
+  /**
+   * Patterns of words that are always plain words, even if they contain a
+   * colon like a key-value pair or start like a tag. Defaults to
+   * {@link Scanner.DEFAULT_WORD_PATTERNS}; extend that list to keep them.
+   */
+  wordPatterns?: RegExp[];
+
+  /** Rules for custom token types; more can be added with {@link Scanner.addRule} */
+  rules?: TokenRule[];
+
+  /**
+   * The grammar of keys of key-value pairs. Defaults to
+   * {@link Scanner.KEY_PATTERNS}.unicode; use `spec` for the todo.txt format's
+   * own rule or `ascii` for letters only.
+   */
+  keyPattern?: RegExp;
+}
 
 /**
  * Scanner class that splits todo.txt lines into tokens.
  * Identifies different components like completion markers, priorities,
  * dates, projects, contexts, and key-value pairs.
  * Uses character-by-character parsing instead of regex for compatibility.
+ *
+ * Words matching a word pattern, such as URLs, email addresses and clock
+ * times, stay plain words. A word starting with a backslash, such as
+ * `\re:thing` or `\+1`, is always a plain word; the backslash is kept.
  */
 export class Scanner {
+  /** Patterns of words that are plain words by default */
+  static readonly DEFAULT_WORD_PATTERNS: RegExp[] = [
+    // URLs such as https://example.com or file:///tmp
+    /^[a-z][a-z0-9+.-]*:\/\/\S*$/i,
+    // mailto: and tel: links
+    /^(mailto|tel):\S+$/i,
+    // Email addresses
+    /^[\w.+-]+@[\w-]+(\.[\w-]+)+$/,
+    // Clock times such as 10:30, 9:15am or 23:59:59
+    /^\d{1,2}:\d{2}(:\d{2})?([ap]m)?$/i,
+    // Windows paths such as C:\Users
+    /^[a-z]:[\\/]/i,
+  ];
+
+  /** Grammars of keys of key-value pairs */
+  static readonly KEY_PATTERNS = {
+    /** A letter followed by letters, digits, "_" or "-", e.g. `due_time`, `x-ref`, `h1` or `fällig` */
+    unicode: /^\p{L}[\p{L}\p{N}_-]*$/u,
+    /** As in the todo.txt format: any characters except whitespace and colons */
+    spec: /^[^\s:]+$/,
+    /** ASCII letters only */
+    ascii: /^[A-Za-z]+$/,
+  };
+
+  /** Scanner configuration options */
+  private options: ScannerOptions;
+
+  /** Custom token rules, highest priority first */
+  private rules: TokenRule[] = [];
+
+  /**
+   * Creates a new Scanner instance.
+   * @param {ScannerOptions} [options] - Optional configuration.
+   */
+  constructor(options?: ScannerOptions) {
+    this.options = {
+      wordPatterns: Scanner.DEFAULT_WORD_PATTERNS,
+      keyPattern: Scanner.KEY_PATTERNS.unicode,
+      ...options,
+    };
+    for (const rule of this.options.rules ?? []) {
+      this.addRule(rule);
+    }
+  }
+
+  /**
+   * Registers a rule for a custom token type.
+   * @param {TokenRule} rule - The rule.
+   */
+  public addRule(rule: TokenRule): void {
+    this.rules.push(rule);
+    // Stable, so rules of the same priority keep their order
+    this.rules.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  }
+
   /**
    * Scans a line of text and produces an array of tokens.
+   * Every token records its offsets in the line and the whitespace before it;
+   * the last token also records any whitespace that ends the line.
    * @param {string} line - The line of text to scan.
    * @returns {Token[]} Array of tokens representing the line.
    */
@@ -23,27 +152,77 @@ export class Scanner {
     const tokens: Token[] = [];
     // Split the line on whitespace
     const parts = this.splitByWhitespace(line);
+    const texts = parts.map((part) => part.text);
 
     // Process each part
     for (let i = 0; i < parts.length; i++) {
       const part = parts[i];
 
+      // Escaped words and words like URLs are never split or classified
+      if (this.isPlainWord(part.text)) {
+        tokens.push(
+          new Token(
+            TokenType.WORD,
+            part.text,
+            part.start,
+            part.end,
+            part.leadingWhitespace
+          )
+        );
+        continue;
+      }
+
+      // Rules that take precedence over key-value pairs and built-in types
+      const rule = this.findRule(part.text, i, texts, true);
+      if (rule) {
+        const token = this.customToken(rule, part.text);
+        token.start = part.start;
+        token.end = part.end;
+        token.leadingWhitespace = part.leadingWhitespace;
+        tokens.push(token);
+        continue;
+      }
+
       // Check for combined key-value pair (like due:2023-04-01)
-      const keyValue = this.tryExtractKeyValue(part);
+      const keyValue = this.tryExtractKeyValue(part.text);
       if (keyValue) {
-        tokens.push(new Token(TokenType.KEY, keyValue.key + ":"));
+        const keyEnd = part.start + keyValue.key.length + 1;
+        tokens.push(
+          new Token(
+            TokenType.KEY,
+            keyValue.key + ":",
+            part.start,
+            keyEnd,
+            part.leadingWhitespace
+          )
+        );
 
-        // Determine the type of the value
-        let valueToken = this.classifyToken(keyValue.value, i, parts);
+        // Determine the type of the value; it is never part of the header
+        const valueToken = this.classifyToken(keyValue.value, i, texts, false);
+        valueToken.start = keyEnd;
+        valueToken.end = part.end;
         tokens.push(valueToken);
         continue;
       }
 
       // Otherwise process the token normally
-      const token = this.classifyToken(part, i, parts);
+      const token = this.classifyToken(
+        part.text,
+        i,
+        texts,
+        this.isHeaderStart(tokens)
+      );
+      token.start = part.start;
+      token.end = part.end;
+      token.leadingWhitespace = part.leadingWhitespace;
       tokens.push(token);
     }
 
+    if (tokens.length > 0) {
+      const last = tokens[tokens.length - 1];
+      last.trailingWhitespace = line.substring(last.end);
+    }
+
     return tokens;
   }
 
@@ -52,26 +231,23 @@ export class Scanner {
    * @param part - The text part to classify
    * @param position - Position in the parts array
    * @param allParts - All parts from the line
+   * @param header - Whether the part may be a completion marker or priority
    * @returns The classified token
    * @private
    */
   private classifyToken(
     part: string,
     position: number,
-    allParts: string[] = []
+    allParts: string[],
+    header: boolean
   ): Token {
     // Special case for PRIORITY
     if (this.isPriority(part)) {
-      // PRIORITY must be at position 0, or at position 1 after a completion marker
-      if (position === 0 || (position === 1 && allParts[0] === "x")) {
-        return new Token(TokenType.PRIORITY, part);
-      } else {
-        return new Token(TokenType.WORD, part);
-      }
+      return new Token(header ? TokenType.PRIORITY : TokenType.WORD, part);
     }
 
     // Check other token types
-    if (part === "x" && position === 0) {
+    if (part === "x" && header && position === 0) {
       return new Token(TokenType.COMPLETION, part);
     } else if (this.isDate(part)) {
       return new Token(TokenType.DATE, part);
@@ -81,44 +257,136 @@ export class Scanner {
       return new Token(TokenType.CONTEXT, part);
     } else if (this.isKey(part)) {
       return new Token(TokenType.KEY, part);
-    } else {
-      return new Token(TokenType.WORD, part);
     }
+
+    const rule = this.findRule(part, position, allParts, false);
+    return rule
+      ? this.customToken(rule, part)
+      : new Token(TokenType.WORD, part);
+  }
+
+  /**
+   * Checks whether the next token may be a completion marker or priority: the
+   * first token of the line, or the token right after a completion marker.
+   * A priority after the marker is the legacy form of a completed todo,
+   * `x (A) 2026-01-01 task`; see {@link ParserOptions.completedPriority}.
+   * @param tokens - The tokens scanned so far
+   * @returns True if the next token is at the start of the header
+   * @private
+   */
+  private isHeaderStart(tokens: Token[]): boolean {
+    return (
+      tokens.length === 0 ||
+      (tokens.length === 1 && tokens[0].type === TokenType.COMPLETION)
+    );
   }
 
   /**
-   * Splits a string by whitespace without using regex
+   * Finds the first custom rule matching a word at a position
+   * @param word - The word to match
+   * @param position - Position of the word in the line
+   * @param words - All words of the line
+   * @param preferred - Whether to look at rules with a priority above 0, or at the others
+   * @returns The matching rule, if any
+   * @private
+   */
+  private findRule(
+    word: string,
+    position: number,
+    words: string[],
+    preferred: boolean
+  ): TokenRule | undefined {
+    return this.rules.find((rule) => {
+      if ((rule.priority ?? 0) > 0 !== preferred) return false;
+
+      if (typeof rule.position === "number" && rule.position !== position) {
+        return false;
+      }
+      if (
+        typeof rule.position === "function" &&
+        !rule.position(position, words)
+      ) {
+        return false;
+      }
+
+      return rule.match instanceof RegExp
+        ? rule.match.test(word)
+        : rule.match(word);
+    });
+  }
+
+  /**
+   * Creates a token of a custom type
+   * @param rule - The matching rule
+   * @param word - The word
+   * @returns The custom token
+   * @private
+   */
+  private customToken(rule: TokenRule, word: string): Token {
+    const token = new Token(TokenType.CUSTOM, word);
+    token.customType = rule.type;
+    return token;
+  }
+
+  /**
+   * Splits a string by whitespace without using regex, keeping the offsets
+   * of each part and the whitespace that precedes it
    * @param line - The line to split
    * @returns Array of parts
    * @private
    */
-  private splitByWhitespace(line: string): string[] {
-    const parts: string[] = [];
+  private splitByWhitespace(line: string): LinePart[] {
+    const parts: LinePart[] = [];
     let currentPart = "";
-    let inWhitespace = true;
+    let whitespace = "";
+    let start = 0;
 
     // Split the string into parts (handling whitespace)
     for (let i = 0; i < line.length; i++) {
       if (this.isWhitespace(line[i])) {
-        if (!inWhitespace && currentPart) {
-          parts.push(currentPart);
+        if (currentPart) {
+          parts.push({
+            text: currentPart,
+            start,
+            end: i,
+            leadingWhitespace: whitespace,
+          });
           currentPart = "";
+          whitespace = "";
         }
-        inWhitespace = true;
+        whitespace += line[i];
       } else {
+        if (!currentPart) {
+          start = i;
+        }
         currentPart += line[i];
-        inWhitespace = false;
       }
     }
 
     // Add the last part if needed
     if (currentPart) {
-      parts.push(currentPart);
+      parts.push({
+        text: currentPart,
+        start,
+        end: line.length,
+        leadingWhitespace: whitespace,
+      });
     }
 
     return parts;
   }
 
+  /**
+   * Checks if a string is escaped or matches one of the word patterns
+   * @param str - String to check
+   * @returns True if it's always a plain word
+   * @private
+   */
+  private isPlainWord(str: string): boolean {
+    if (str.length > 1 && str[0] === "\\") return true;
+    return this.options.wordPatterns!.some((pattern) => pattern.test(str));
+  }
+
   /**
    * Checks if a string matches the priority format (A) to (Z)
    * @param str - String to check
@@ -132,9 +400,10 @@ export class Scanner {
   }
 
   /**
-   * Checks if a string matches the YYYY-MM-DD date format
+   * Checks if a string is a YYYY-MM-DD date that exists in the calendar.
+   * Strings of the right shape with an impossible month or day are words.
    * @param str - String to check
-   * @returns True if it's a valid date format
+   * @returns True if it's a valid date
    * @private
    */
   private isDate(str: string): boolean {
@@ -148,7 +417,7 @@ export class Scanner {
       if (!this.isDigit(str[i])) return false;
     }
 
-    return true;
+    return CalendarDate.isValid(str);
   }
 
   /**
@@ -230,16 +499,6 @@ export class Scanner {
     return char >= "0" && char <= "9";
   }
 
-  /**
-   * Checks if a character is a letter
-   * @param char - Character to check
-   * @returns True if it's a letter
-   * @private
-   */
-  private isLetter(char: string): boolean {
-    return (char >= "a" && char <= "z") || (char >= "A" && char <= "Z");
-  }
-
   /**
    * Checks if a character is an uppercase letter
    * @param char - Character to check
@@ -251,16 +510,12 @@ export class Scanner {
   }
 
   /**
-   * Validates a key prefix (should be letters only)
+   * Validates a key prefix against the key grammar
    * @param str - String to validate
    * @returns True if valid
    * @private
    */
   private isValidKeyPrefix(str: string): boolean {
-    // Check only letters a-zA-Z
-    for (let i = 0; i < str.length; i++) {
-      if (!this.isLetter(str[i])) return false;
-    }
-    return str.length > 0;
+    return this.options.keyPattern!.test(str);
   }
 }
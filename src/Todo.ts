@@ -5,15 +5,144 @@
  * @module Todo
  */
 
+import { Token, TokenType } from "./Token";
+import { Recurrence } from "./Recurrence";
+import { CalendarDate, DateUnit } from "./CalendarDate";
+import { Clock } from "./Clock";
+import { DateExpression } from "./DateExpression";
+import { KeySchema } from "./KeySchema";
+import { Scanner } from "./Scanner";
+
 /**
  * Interface for recurrence pattern configuration
  */
 export interface RecurrencePattern {
-  /** Type of recurrence: daily, weekly, monthly, yearly */
-  type: "daily" | "weekly" | "monthly" | "yearly";
+  /** Type of recurrence: daily, business days (Monday to Friday), weekly, monthly, yearly */
+  type: "daily" | "business" | "weekly" | "monthly" | "yearly";
 
   /** Number of units (days, weeks, etc.) between recurrences */
   interval: number;
+
+  /**
+   * True for strict recurrence (`rec:+1w`), which schedules the next occurrence
+   * from the previous due date instead of the completion date.
+   */
+  strict?: boolean;
+
+  /** For weekly recurrence: the weekdays to recur on (0 = Sunday to 6 = Saturday) */
+  weekdays?: number[];
+
+  /** For monthly recurrence: the day of the month, or -1 for the last day */
+  monthDay?: number;
+
+  /** For monthly recurrence: the nth (1-5, or -1 for last) weekday of the month */
+  nthWeekday?: { n: number; weekday: number };
+}
+
+/**
+ * Options for converting a todo back to text.
+ */
+export interface TodoSerializeOptions {
+  /**
+   * When true, a todo that was parsed from text keeps its original layout:
+   * an untouched todo re-emits its exact source line and an edited one only
+   * rewrites the parts that changed. Todos created in code are unaffected.
+   */
+  lossless?: boolean;
+}
+
+/**
+ * What happens to the priority of a todo when it is completed. The todo.txt
+ * format does not allow a priority on completed todos, so it is removed, or
+ * by a common convention moved to a `pri:` key-value pair.
+ * - "drop": the priority is removed
+ * - "pri": the priority becomes `pri:A` and is restored by {@link Todo.markIncomplete}
+ * - "keep": the priority stays, written after the completion marker in the
+ *   legacy form `x (A) 2026-01-01 task`
+ */
+export type CompletedPriority = "pri" | "keep" | "drop";
+
+/** The key holding the priority of a completed todo */
+const PRIORITY_KEY = "pri";
+
+/**
+ * The editable fields of a todo, as reported in change notifications.
+ */
+export type TodoField =
+  | "id"
+  | "completed"
+  | "priority"
+  | "completionDate"
+  | "creationDate"
+  | "description"
+  | "projects"
+  | "contexts"
+  | "tags"
+  | "keyValues";
+
+/**
+ * The fields holding the content of a todo, all but its id.
+ */
+export type TodoContentField = Exclude<TodoField, "id">;
+
+/** All content fields of a todo */
+const TODO_FIELDS: TodoContentField[] = [
+  "completed",
+  "priority",
+  "completionDate",
+  "creationDate",
+  "description",
+  "projects",
+  "contexts",
+  "tags",
+  "keyValues",
+];
+
+/**
+ * Tokens of custom token types, such as `#hashtags`, by the name of their type.
+ * See {@link TokenRule}.
+ */
+export type TodoTags = { [type: string]: string[] };
+
+/**
+ * Describes a change made to a todo.
+ */
+export interface TodoChange {
+  /** The fields that changed */
+  fields: TodoField[];
+
+  /** The values of the changed fields before the change */
+  previous: Partial<Record<TodoField, any>>;
+}
+
+/**
+ * Function called after a todo changed.
+ */
+export type TodoChangeListener = (todo: Todo, change: TodoChange) => void;
+
+/**
+ * The state of a parsed todo at the time it was read, used to detect edits.
+ * @private
+ */
+interface SourceSnapshot {
+  completed: boolean;
+  priority?: string;
+  completionDate?: string;
+  creationDate?: string;
+  description: string;
+  projects: string[];
+  contexts: string[];
+  tags: TodoTags;
+  keyValues: { [key: string]: any };
+}
+
+/**
+ * A whitespace-prefixed piece of an output line.
+ * @private
+ */
+interface LinePiece {
+  whitespace: string;
+  text: string;
 }
 
 /**
@@ -21,7 +150,7 @@ export interface RecurrencePattern {
  * A todo includes completion status, priority, dates, descriptions,
  * and metadata like projects, contexts, and key-value pairs.
  */
-export class Todo {
+export class Todo<V extends Record<string, any> = Record<string, any>> {
   /** Unique identifier for the todo */
   private _id: string;
 
@@ -46,9 +175,33 @@ export class Todo {
   /** Array of context tags (starting with @) */
   private _contexts: string[];
 
+  /** Custom tags by the name of their token type */
+  private _tags: TodoTags;
+
   /** Object storing key-value pairs as metadata */
   private _keyValues: { [key: string]: any };
 
+  /** Types of the key-value pairs, if declared */
+  private _schema?: KeySchema<V>;
+
+  /** The grammar that keys have to match, as in {@link ScannerOptions.keyPattern} */
+  private _keyPattern: RegExp;
+
+  /** Whether date setters resolve expressions such as "tomorrow", as in {@link ParserOptions.resolveDates} */
+  private _resolveDates: boolean;
+
+  /** Tokens of the line this todo was parsed from, if any */
+  private _sourceTokens?: Token[];
+
+  /** Number of leading tokens that form the completion/priority/date header */
+  private _sourceHeaderLength: number = 0;
+
+  /** Field values at the time the source tokens were attached */
+  private _sourceSnapshot?: SourceSnapshot;
+
+  /** Listeners notified after the todo changed */
+  private _changeListeners: Set<TodoChangeListener> = new Set();
+
   /**
    * Creates a new Todo instance.
    * @param {Object} [options] - Optional configuration for the new todo.
@@ -59,8 +212,15 @@ export class Todo {
    * @param {string} [options.description] - The description text.
    * @param {string[]} [options.projects] - Array of project tags starting with "+".
    * @param {string[]} [options.contexts] - Array of context tags starting with "@".
+   * @param {TodoTags} [options.tags] - Custom tags by the name of their token type.
    * @param {Object} [options.keyValues] - Key-value metadata.
    * @param {string} [options.due] - Due date in YYYY-MM-DD format.
+   * @param {string} [options.id] - The identifier to use instead of a generated one.
+   * @param {KeySchema} [options.schema] - The types of the key-value pairs, used for serialization.
+   * @param {RegExp} [options.keyPattern] - The grammar of keys. Defaults to Scanner.KEY_PATTERNS.unicode.
+   * @param {boolean} [options.resolveDates] - Whether the creation date, the due date
+   * and the threshold date may be date expressions such as "tomorrow", resolved
+   * against today; see {@link DateExpression}. Defaults to false.
    */
   constructor(
     options: {
@@ -71,36 +231,32 @@ export class Todo {
       description?: string;
       projects?: string[];
       contexts?: string[];
+      tags?: TodoTags;
       keyValues?: { [key: string]: any };
       due?: string;
+      id?: string;
+      schema?: KeySchema<V>;
+      keyPattern?: RegExp;
+      resolveDates?: boolean;
       [key: string]: any;
     } = {}
   ) {
-    // Generate a unique ID
-    if (
-      typeof window !== "undefined" &&
-      window.crypto &&
-      window.crypto.randomUUID
-    ) {
-      this._id = window.crypto.randomUUID();
-    } else if (
-      globalThis.crypto &&
-      typeof globalThis.crypto.randomUUID === "function"
-    ) {
-      this._id = globalThis.crypto.randomUUID();
-    } else {
-      // Fallback (should not occur in supported environments)
-      this._id = Math.random().toString(36).substring(2, 9);
-    }
+    this._id = options.id ?? Todo.generateId();
+    this._schema = options.schema;
+    this._keyPattern = options.keyPattern ?? Scanner.KEY_PATTERNS.unicode;
+    this._resolveDates = options.resolveDates ?? false;
 
     this._completed = options.completed || false;
     this._description = options.description || "";
     this._completionDate = options.completionDate;
-    this._creationDate = options.creationDate;
+    this._creationDate = options.creationDate
+      ? this.resolveDate(options.creationDate)
+      : undefined;
 
     // Initialize empty arrays and objects
     this._projects = [];
     this._contexts = [];
+    this._tags = {};
     this._keyValues = options.keyValues || {};
 
     // Format projects with + prefix if needed
@@ -117,6 +273,12 @@ export class Todo {
       }
     }
 
+    for (const type in options.tags) {
+      for (const tag of options.tags[type]) {
+        this.addTag(type, tag);
+      }
+    }
+
     // Handle priority: normalize to form "(X)"
     if (options.priority) {
       this.setPriority(options.priority);
@@ -137,9 +299,13 @@ export class Todo {
           "description",
           "projects",
           "contexts",
+          "tags",
           "keyValues",
           "due",
           "id",
+          "schema",
+          "keyPattern",
+          "resolveDates",
         ].includes(key)
       ) {
         this.setKeyValue(key, options[key]);
@@ -191,11 +357,29 @@ export class Todo {
     return [...this._contexts];
   }
 
+  /** Get custom tags by the name of their token type */
+  get tags(): Readonly<TodoTags> {
+    return this.copyTags();
+  }
+
   /** Get key-value pairs */
   get keyValues(): Readonly<{ [key: string]: any }> {
     return { ...this._keyValues };
   }
 
+  /** Get the types of the key-value pairs, if declared */
+  get schema(): KeySchema<V> | undefined {
+    return this._schema;
+  }
+
+  /** Get the original source line, if the todo was parsed from text */
+  get source(): string | undefined {
+    if (!this._sourceTokens) return undefined;
+    return this._sourceTokens
+      .map((token, index) => this.rawTokenText(token, index))
+      .join("");
+  }
+
   /**
    * Gets the due date of the todo, if any.
    * @returns {string|undefined} The due date in YYYY-MM-DD format or undefined.
@@ -204,6 +388,27 @@ export class Todo {
     return this._keyValues["due"];
   }
 
+  /**
+   * Gets the threshold date (`t:`) before which the todo is not actionable.
+   * Relative thresholds such as `t:-3d` are measured from the due date.
+   * @returns {string|undefined} The threshold date in YYYY-MM-DD format, or
+   * undefined if not set or relative without a valid due date.
+   */
+  getThresholdDate(): string | undefined {
+    const value = this._keyValues["t"];
+    if (typeof value !== "string") return undefined;
+
+    const match = value.match(/^([+-]\d+)([dwmy])?$/i);
+    if (!match) return value;
+
+    const dueDate = this.getDueDate();
+    if (typeof dueDate !== "string" || !CalendarDate.isValid(dueDate)) {
+      return undefined;
+    }
+    const unit = (match[2] || "d").toLowerCase() as DateUnit;
+    return CalendarDate.add(dueDate, parseInt(match[1]), unit);
+  }
+
   /**
    * Gets the recurrence pattern of the todo, if any.
    * @returns {RecurrencePattern|undefined} The recurrence pattern or undefined.
@@ -212,31 +417,7 @@ export class Todo {
     const value = this._keyValues["rec"];
     if (!value || typeof value !== "string") return undefined;
 
-    const match = value.match(/^(\d+)([dwmy])$/i);
-    if (!match) return undefined;
-
-    const interval = parseInt(match[1]);
-    const typeChar = match[2].toLowerCase();
-
-    let type: "daily" | "weekly" | "monthly" | "yearly";
-    switch (typeChar) {
-      case "d":
-        type = "daily";
-        break;
-      case "w":
-        type = "weekly";
-        break;
-      case "m":
-        type = "monthly";
-        break;
-      case "y":
-        type = "yearly";
-        break;
-      default:
-        return undefined;
-    }
-
-    return { interval, type };
+    return Recurrence.parse(value)?.pattern;
   }
 
   //
@@ -245,20 +426,26 @@ export class Todo {
 
   /** Set completed status */
   set completed(value: boolean) {
-    this._completed = value;
-    if (!value) {
-      this._completionDate = undefined;
-    }
+    this.change(["completed", "completionDate"], () => {
+      this._completed = value;
+      if (!value) {
+        this._completionDate = undefined;
+      }
+    });
   }
 
   /** Set the completion date */
   set completionDate(value: string | undefined) {
-    this._completionDate = value;
+    this.change(["completionDate"], () => {
+      this._completionDate = value;
+    });
   }
 
   /** Set the creation date */
   set creationDate(value: string | undefined) {
-    this._creationDate = value;
+    this.change(["creationDate"], () => {
+      this._creationDate = value;
+    });
   }
 
   /**
@@ -266,15 +453,35 @@ export class Todo {
    * @param {string} newDescription - The new description text.
    */
   setDescription(newDescription: string): void {
-    this._description = newDescription;
+    this.change(["description"], () => {
+      this._description = newDescription;
+    });
   }
 
   /**
-   * Sets the due date for the todo.
-   * @param {string} dueDate - The due date in YYYY-MM-DD format.
+   * Sets the due date for the todo. If the todo resolves dates, expressions
+   * such as "tomorrow", "fri" or "+2w" are resolved against today.
+   * @param {string} dueDate - The due date in YYYY-MM-DD format, or a date
+   * expression if the todo resolves dates.
    */
   setDueDate(dueDate: string): void {
-    this._keyValues["due"] = dueDate;
+    this.setKeyValue("due", this.resolveDate(dueDate));
+  }
+
+  /**
+   * Sets the threshold date (`t:`) before which the todo is not actionable.
+   * @param {string|null} threshold - A date in YYYY-MM-DD format, an offset from
+   * the due date such as "-3d" (d, w, m, y), a date expression such as
+   * "next-month" if the todo resolves dates, or null to remove the threshold.
+   */
+  setThresholdDate(threshold: string | null): void {
+    if (threshold === null) {
+      this.removeKeyValue("t");
+    } else if (DateExpression.isOffset(threshold)) {
+      this.setKeyValue("t", threshold);
+    } else {
+      this.setKeyValue("t", this.resolveDate(threshold));
+    }
   }
 
   /**
@@ -282,33 +489,84 @@ export class Todo {
    * @param {string|null} priority - Priority letter (A-Z) or null to remove priority.
    */
   setPriority(priority: string | null): void {
-    if (priority === null) {
-      this._priority = undefined;
-      return;
-    }
-
-    if (priority.startsWith("(") && priority.endsWith(")")) {
-      // Priority is already enclosed in parentheses
-      const priorityChar = priority.charAt(1).toUpperCase();
-      if (/[A-Z]/.test(priorityChar)) {
-        this._priority = `(${priorityChar})`;
+    this.change(["priority"], () => {
+      if (priority === null) {
+        this._priority = undefined;
+        return;
       }
-    } else {
-      // Just extract the letter
-      const priorityChar = priority.replace(/[^A-Za-z]/, "").toUpperCase();
-      if (priorityChar) {
-        this._priority = `(${priorityChar})`;
+
+      if (priority.startsWith("(") && priority.endsWith(")")) {
+        // Priority is already enclosed in parentheses
+        const priorityChar = priority.charAt(1).toUpperCase();
+        if (/[A-Z]/.test(priorityChar)) {
+          this._priority = `(${priorityChar})`;
+        }
+      } else {
+        // Just extract the letter
+        const priorityChar = priority.replace(/[^A-Za-z]/, "").toUpperCase();
+        if (priorityChar) {
+          this._priority = `(${priorityChar})`;
+        }
       }
-    }
+    });
   }
 
   /**
    * Sets a key-value pair on the todo.
    * @param {string} key - The key name.
    * @param {any} value - The value to store.
+   * @throws {Error} If the key does not match the key grammar, so it could not be read back.
    */
   setKeyValue(key: string, value: any): void {
-    this._keyValues[key] = value;
+    if (!this._keyPattern.test(key)) {
+      throw new Error(`Invalid key '${key}'`);
+    }
+    this.change(["keyValues"], () => {
+      this._keyValues[key] = value;
+    });
+  }
+
+  /**
+   * Gets all values of a key. A repeated key such as `tag:a tag:b` has one
+   * value per pair (see the "merge" duplicate key behavior of the parser).
+   * @param {string} key - The key name.
+   * @returns {any[]} The values in source order; empty if the key is not set.
+   */
+  getKeyValues(key: string): any[] {
+    if (!(key in this._keyValues)) return [];
+    const value = this._keyValues[key];
+    return Array.isArray(value) && !this._schema?.isList(key)
+      ? [...value]
+      : [value];
+  }
+
+  /**
+   * Adds a value to a key, keeping the values it already has. Each value is
+   * written as its own key-value pair.
+   * @param {string} key - The key name.
+   * @param {any} value - The value to add.
+   */
+  addKeyValue(key: string, value: any): void {
+    const values = this.getKeyValues(key);
+    this.setKeyValue(key, values.length === 0 ? value : [...values, value]);
+  }
+
+  /**
+   * Gets the value of a key, typed by the todo's schema.
+   * @param {string} key - The key name.
+   * @returns {any} The value, or undefined if the key is not set.
+   */
+  get<K extends keyof V & string>(key: K): V[K] | undefined {
+    return this._keyValues[key];
+  }
+
+  /**
+   * Sets the value of a key, typed by the todo's schema.
+   * @param {string} key - The key name.
+   * @param {any} value - The value to store.
+   */
+  set<K extends keyof V & string>(key: K, value: V[K]): void {
+    this.setKeyValue(key, value);
   }
 
   /**
@@ -316,8 +574,7 @@ export class Todo {
    * @param {RecurrencePattern} pattern - The recurrence pattern configuration.
    */
   setRecurrence(pattern: RecurrencePattern): void {
-    const value = `${pattern.interval}${pattern.type.charAt(0)}`;
-    this.setKeyValue("rec", value);
+    this.setKeyValue("rec", new Recurrence(pattern).toString());
   }
 
   //
@@ -326,58 +583,92 @@ export class Todo {
 
   /**
    * Checks if the todo is due today.
+   * @param {string} [today] - Today's date in YYYY-MM-DD format. Defaults to the current date.
    * @returns {boolean} True if the todo is due today.
    */
-  isDueToday(): boolean {
+  isDueToday(today: string = this.getTodayString()): boolean {
     const dueDate = this._keyValues["due"];
-    return dueDate === this.getTodayString();
+    return dueDate === today;
   }
 
   /**
    * Checks if the todo is overdue.
+   * @param {string} [today] - Today's date in YYYY-MM-DD format. Defaults to the current date.
    * @returns {boolean} True if the todo is overdue and not completed.
    */
-  isOverdue(): boolean {
+  isOverdue(today: string = this.getTodayString()): boolean {
     const dueDate = this._keyValues["due"];
-    return !this._completed && !!dueDate && dueDate < this.getTodayString();
+    return !this._completed && !!dueDate && dueDate < today;
+  }
+
+  /**
+   * Checks if the todo can be worked on: it is not completed and its threshold
+   * date, if any, has been reached.
+   * @param {string} [today] - Today's date in YYYY-MM-DD format. Defaults to the current date.
+   * @returns {boolean} True if the todo is actionable.
+   */
+  isActionable(today: string = this.getTodayString()): boolean {
+    const threshold = this.getThresholdDate();
+    return !this._completed && (!threshold || threshold <= today);
   }
 
   /**
    * Calculates the number of days until the todo is due.
+   * @param {string} [today] - Today's date in YYYY-MM-DD format. Defaults to the current date.
    * @returns {number|undefined} Number of days, or undefined if no due date.
    */
-  daysUntilDue(): number | undefined {
+  daysUntilDue(today: string = this.getTodayString()): number | undefined {
     const dueDate = this._keyValues["due"];
     if (!dueDate) return undefined;
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const due = new Date(dueDate);
-    due.setHours(0, 0, 0, 0);
-
-    const diffTime = due.getTime() - today.getTime();
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-
-    return diffDays;
+    return CalendarDate.diff(today, dueDate);
   }
 
   /**
    * Marks the todo as completed.
    * @param {string} [completionDate] - Optional completion date in YYYY-MM-DD format.
    * Defaults to today if not provided.
+   * @param {CompletedPriority} [priority] - What happens to the priority. Defaults to "drop".
    */
-  markCompleted(completionDate?: string): void {
-    this._completed = true;
-    this._completionDate = completionDate || this.getTodayString();
+  markCompleted(
+    completionDate?: string,
+    priority: CompletedPriority = "drop"
+  ): void {
+    const moves = this._priority !== undefined && priority !== "keep";
+    const fields: TodoField[] = ["completed", "completionDate"];
+    if (moves) fields.push("priority");
+    if (moves && priority === "pri") fields.push("keyValues");
+    this.change(fields, () => {
+      this._completed = true;
+      this._completionDate = completionDate || this.getTodayString();
+      if (moves) {
+        if (priority === "pri") {
+          this._keyValues[PRIORITY_KEY] = this._priority!.charAt(1);
+        }
+        this._priority = undefined;
+      }
+    });
   }
 
   /**
    * Marks the todo as incomplete, removing any completion date.
+   * A priority kept in `pri:` is restored.
    */
   markIncomplete(): void {
-    this._completed = false;
-    this._completionDate = undefined;
+    const stored = this._keyValues[PRIORITY_KEY];
+    const restores = typeof stored === "string" && /^[A-Za-z]$/.test(stored);
+    const fields: TodoField[] = ["completed", "completionDate"];
+    if (restores) fields.push("priority", "keyValues");
+    this.change(fields, () => {
+      this._completed = false;
+      this._completionDate = undefined;
+      if (restores) {
+        if (!this._priority) {
+          this._priority = `(${stored.toUpperCase()})`;
+        }
+        delete this._keyValues[PRIORITY_KEY];
+      }
+    });
   }
 
   /**
@@ -401,7 +692,9 @@ export class Todo {
   addContext(context: string): void {
     const formattedContext = context.startsWith("@") ? context : `@${context}`;
     if (!this._contexts.includes(formattedContext)) {
-      this._contexts.push(formattedContext);
+      this.change(["contexts"], () => {
+        this._contexts.push(formattedContext);
+      });
     }
   }
 
@@ -411,7 +704,47 @@ export class Todo {
    */
   removeContext(context: string): void {
     const formattedContext = context.startsWith("@") ? context : `@${context}`;
-    this._contexts = this._contexts.filter((c) => c !== formattedContext);
+    this.change(["contexts"], () => {
+      this._contexts = this._contexts.filter((c) => c !== formattedContext);
+    });
+  }
+
+  /**
+   * Gets the custom tags of a token type.
+   * @param {string} type - The name of the token type, e.g. "hashtag".
+   * @returns {string[]} The tags as written, e.g. ["#urgent"].
+   */
+  getTags(type: string): string[] {
+    return [...(this._tags[type] ?? [])];
+  }
+
+  /**
+   * Adds a custom tag to the todo.
+   * @param {string} type - The name of the token type, e.g. "hashtag".
+   * @param {string} tag - The tag as written, e.g. "#urgent".
+   */
+  addTag(type: string, tag: string): void {
+    if (!this.getTags(type).includes(tag)) {
+      this.change(["tags"], () => {
+        this._tags[type] = [...this.getTags(type), tag];
+      });
+    }
+  }
+
+  /**
+   * Removes a custom tag from the todo.
+   * @param {string} type - The name of the token type, e.g. "hashtag".
+   * @param {string} tag - The tag as written, e.g. "#urgent".
+   */
+  removeTag(type: string, tag: string): void {
+    this.change(["tags"], () => {
+      const tags = this.getTags(type).filter((t) => t !== tag);
+      if (tags.length > 0) {
+        this._tags[type] = tags;
+      } else {
+        delete this._tags[type];
+      }
+    });
   }
 
   /**
@@ -421,7 +754,9 @@ export class Todo {
   addProject(project: string): void {
     const formattedProject = project.startsWith("+") ? project : `+${project}`;
     if (!this._projects.includes(formattedProject)) {
-      this._projects.push(formattedProject);
+      this.change(["projects"], () => {
+        this._projects.push(formattedProject);
+      });
     }
   }
 
@@ -431,7 +766,9 @@ export class Todo {
    */
   removeProject(project: string): void {
     const formattedProject = project.startsWith("+") ? project : `+${project}`;
-    this._projects = this._projects.filter((p) => p !== formattedProject);
+    this.change(["projects"], () => {
+      this._projects = this._projects.filter((p) => p !== formattedProject);
+    });
   }
 
   /**
@@ -469,96 +806,262 @@ export class Todo {
   }
 
   /**
-   * Removes a key-value pair from the todo.
+   * Removes a key from the todo, or only one of its values.
    * @param {string} key - The key name to remove.
+   * @param {any} [value] - The value to remove; omit to remove all values of the key.
    */
-  removeKeyValue(key: string): void {
-    delete this._keyValues[key];
+  removeKeyValue(key: string, value?: any): void {
+    if (value === undefined) {
+      this.change(["keyValues"], () => {
+        delete this._keyValues[key];
+      });
+      return;
+    }
+
+    const values = this.getKeyValues(key);
+    const index = values.findIndex((v) => this.valuesEqual(v, value));
+    if (index === -1) return;
+    values.splice(index, 1);
+    if (values.length === 0) {
+      this.removeKeyValue(key);
+    } else {
+      this.setKeyValue(key, values.length === 1 ? values[0] : values);
+    }
   }
 
   /**
-   * Generates a new todo based on the recurrence pattern.
-   * @returns {Todo|undefined} A new todo with updated due date, or undefined if not recurring.
+   * Generates the next occurrence of a recurring todo.
+   * A plain pattern (`rec:1w`) schedules the next due date from the completion
+   * date; a strict pattern (`rec:+1w`) from the previous due date. The threshold
+   * date (`t:`) and creation date move by the same number of days as the due date.
+   * Todos without a due date recur based on their threshold date instead.
+   * Recurrence stops after the date in `until:`, and `count:` holds the number of
+   * occurrences left including this one; the next occurrence gets one less.
+   * A strict monthly pattern that had to clamp the day to the end of a shorter
+   * month stores the original day (`rec:+1m` from January 31 becomes
+   * `rec:+1m/31`), so the occurrences after it return to that day.
+   * @param {string} [completionDate] - The completion date to schedule from.
+   * Defaults to the todo's completion date, or today if it is not completed.
+   * @returns {Todo|undefined} The next occurrence, or undefined if not recurring.
    */
-  generateRecurringTodo(): Todo | undefined {
-    const dueDate = this.getDueDate();
+  generateRecurringTodo(completionDate?: string): Todo<V> | undefined {
     const recurrence = this.getRecurrence();
+    const key = this.getDueDate() ? "due" : "t";
+    const anchor = key === "due" ? this.getDueDate() : this.getThresholdDate();
+
+    if (!anchor || !CalendarDate.isValid(anchor) || !recurrence) {
+      return undefined;
+    }
+
+    const remaining = this.getRemainingCount();
+    if (remaining !== undefined && remaining <= 1) return undefined;
+
+    const start = recurrence.strict
+      ? anchor
+      : completionDate ?? this._completionDate ?? this.getTodayString();
+    const next = new Recurrence(recurrence).next(start);
+    const until = this._keyValues["until"];
+    if (typeof until === "string" && next > until) return undefined;
 
-    if (!dueDate || !recurrence) return undefined;
+    const offset = CalendarDate.diff(anchor, next);
 
     const newTodo = this.clone();
-    newTodo.completed = false;
-    newTodo.completionDate = undefined;
-
-    // Calculate new due date
-    const date = new Date(dueDate);
-    switch (recurrence.type) {
-      case "daily":
-        date.setDate(date.getDate() + recurrence.interval);
-        break;
-      case "weekly":
-        date.setDate(date.getDate() + recurrence.interval * 7);
-        break;
-      case "monthly":
-        date.setMonth(date.getMonth() + recurrence.interval);
-        break;
-      case "yearly":
-        date.setFullYear(date.getFullYear() + recurrence.interval);
-        break;
-    }
-
-    const newDueDate = date.toISOString().split("T")[0];
-    newTodo.setDueDate(newDueDate);
+    newTodo.markIncomplete();
+    newTodo.setKeyValue(key, next);
+
+    // Relative thresholds move along with the due date by themselves
+    const threshold = this._keyValues["t"];
+    if (
+      key === "due" &&
+      typeof threshold === "string" &&
+      CalendarDate.isValid(threshold)
+    ) {
+      newTodo.setKeyValue("t", CalendarDate.add(threshold, offset, "d"));
+    }
+    if (this._creationDate) {
+      newTodo.creationDate = CalendarDate.add(this._creationDate, offset, "d");
+    }
+    if (remaining !== undefined) {
+      newTodo.setKeyValue("count", String(remaining - 1));
+    }
+    const day = new Date(CalendarDate.toTime(anchor)).getUTCDate();
+    if (
+      recurrence.strict &&
+      recurrence.type === "monthly" &&
+      recurrence.monthDay === undefined &&
+      !recurrence.nthWeekday &&
+      new Date(CalendarDate.toTime(next)).getUTCDate() !== day
+    ) {
+      newTodo.setRecurrence({ ...recurrence, monthDay: day });
+    }
 
     return newTodo;
   }
 
   /**
-   * Converts the todo to its string representation.
-   * @returns {string} The todo in todo.txt format.
+   * Lists the upcoming due dates of a recurring todo, e.g. for calendar previews.
+   * Occurrences follow the recurrence rule from the due date (or threshold date)
+   * and respect `until:` and `count:`.
+   * @param {number} count - The maximum number of dates.
+   * @returns {string[]} The dates in YYYY-MM-DD format, empty if not recurring.
    */
-  toString(): string {
-    const parts: string[] = [];
+  getNextOccurrences(count: number): string[] {
+    const recurrence = this.getRecurrence();
+    const anchor = this.getDueDate() ?? this._keyValues["t"];
+    if (
+      !recurrence ||
+      typeof anchor !== "string" ||
+      !CalendarDate.isValid(anchor)
+    ) {
+      return [];
+    }
 
-    // Completion marker and completion date
-    if (this._completed) {
-      parts.push("x");
-      if (this._completionDate) {
-        parts.push(this._completionDate);
+    const remaining = this.getRemainingCount();
+    const limit =
+      remaining === undefined ? count : Math.min(count, remaining - 1);
+    const until = this._keyValues["until"];
+    return new Recurrence(recurrence).occurrences(
+      anchor,
+      Math.max(limit, 0),
+      typeof until === "string" ? until : undefined
+    );
+  }
+
+  /**
+   * Sets several fields at once, reporting them as a single change.
+   * Used to restore the values recorded in a {@link TodoChange}.
+   * @param {Partial<Record<TodoField, any>>} values - The new values per field.
+   */
+  setFields(values: Partial<Record<TodoField, any>>): void {
+    const fields = Object.keys(values) as TodoField[];
+    this.change(fields, () => {
+      for (const field of fields) {
+        const value = values[field];
+        switch (field) {
+          case "id":
+            this._id = value;
+            break;
+          case "completed":
+            this._completed = value;
+            break;
+          case "priority":
+            this._priority = value;
+            break;
+          case "completionDate":
+            this._completionDate = value;
+            break;
+          case "creationDate":
+            this._creationDate = value;
+            break;
+          case "description":
+            this._description = value;
+            break;
+          case "projects":
+            this._projects = [...value];
+            break;
+          case "contexts":
+            this._contexts = [...value];
+            break;
+          case "tags":
+            this._tags = {};
+            for (const type in value) {
+              this._tags[type] = [...value[type]];
+            }
+            break;
+          case "keyValues":
+            this._keyValues = { ...value };
+            break;
+        }
       }
-    }
+    });
+  }
 
-    // Creation date (if present)
-    if (this._creationDate) {
-      parts.push(this._creationDate);
+  /**
+   * Returns the values of all fields but the id, in the form accepted by {@link Todo.setFields}.
+   * @returns {Record<TodoContentField, any>} The value of each field.
+   */
+  getFields(): Record<TodoContentField, any> {
+    const values = {} as Record<TodoContentField, any>;
+    for (const field of TODO_FIELDS) {
+      values[field] = this.getFieldValue(field);
     }
+    return values;
+  }
+
+  /**
+   * Registers a listener that is called after the todo changed.
+   * @param {TodoChangeListener} listener - The listener to call.
+   * @returns {function} A function that removes the listener again.
+   */
+  onChange(listener: TodoChangeListener): () => void {
+    this._changeListeners.add(listener);
+    return () => {
+      this._changeListeners.delete(listener);
+    };
+  }
 
-    // Priority (only for incomplete todos or after dates for completed todos)
-    if (this._priority && !this._completed) {
-      // For todo.txt format, priority only appears for incomplete todos
-      parts.push(this._priority);
+  /**
+   * Attaches the tokens this todo was parsed from, enabling lossless serialization.
+   * The current field values are remembered so later edits can be detected.
+   * @param {Token[]} tokens - The tokens of the source line.
+   * @param {number} headerLength - Number of leading tokens that form the completion/priority/date header.
+   */
+  attachSource(tokens: Token[], headerLength: number): void {
+    this._sourceTokens = [...tokens];
+    this._sourceHeaderLength = headerLength;
+    this._sourceSnapshot = {
+      completed: this._completed,
+      priority: this._priority,
+      completionDate: this._completionDate,
+      creationDate: this._creationDate,
+      description: this._description,
+      projects: [...this._projects],
+      contexts: [...this._contexts],
+      tags: this.copyTags(),
+      keyValues: this.copyKeyValues(),
+    };
+  }
+
+  /**
+   * Checks whether the todo differs from the line it was parsed from.
+   * @returns {boolean} True if any field was edited, or if the todo has no source line.
+   */
+  isModified(): boolean {
+    if (!this._sourceSnapshot) return true;
+    return (
+      this.isHeaderModified() ||
+      this._description !== this._sourceSnapshot.description ||
+      !this.valuesEqual(this._projects, this._sourceSnapshot.projects) ||
+      !this.valuesEqual(this._contexts, this._sourceSnapshot.contexts) ||
+      !this.keyValuesEqual(this._tags, this._sourceSnapshot.tags) ||
+      !this.keyValuesEqual(this._keyValues, this._sourceSnapshot.keyValues)
+    );
+  }
+
+  /**
+   * Converts the todo to its string representation.
+   * @param {TodoSerializeOptions} [options] - Optional serialization settings.
+   * @returns {string} The todo in todo.txt format.
+   */
+  toString(options: TodoSerializeOptions = {}): string {
+    if (options.lossless && this._sourceTokens) {
+      return this.toLosslessString();
     }
 
+    const parts: string[] = this.headerParts();
+
     // Description text
     parts.push(this._description);
 
     // Add projects and contexts if they're not already in the description
-    for (const project of this._projects) {
-      if (!this._description.includes(project)) {
-        parts.push(project);
-      }
-    }
-
-    for (const context of this._contexts) {
-      if (!this._description.includes(context)) {
-        parts.push(context);
-      }
-    }
+    parts.push(...this.missingTags());
 
     // Add key-value pairs
     for (const key in this._keyValues) {
       if (Object.prototype.hasOwnProperty.call(this._keyValues, key)) {
-        parts.push(`${key}:${this._keyValues[key]}`);
+        for (const text of this.formatValues(key)) {
+          parts.push(`${key}:${text}`);
+        }
       }
     }
 
@@ -567,10 +1070,13 @@ export class Todo {
 
   /**
    * Creates a deep copy of this todo.
+   * @param {Object} [options] - Optional configuration for the copy.
+   * @param {boolean} [options.keepId] - Whether the copy keeps this todo's id. Defaults to false.
    * @returns {Todo} A new todo with the same properties.
    */
-  clone(): Todo {
-    return new Todo({
+  clone(options: { keepId?: boolean } = {}): Todo<V> {
+    return new Todo<V>({
+      id: options.keepId ? this._id : undefined,
       completed: this._completed,
       priority: this._priority,
       completionDate: this._completionDate,
@@ -578,17 +1084,615 @@ export class Todo {
       description: this._description,
       projects: [...this._projects],
       contexts: [...this._contexts],
+      tags: this.copyTags(),
       keyValues: { ...this._keyValues },
+      schema: this._schema,
+      keyPattern: this._keyPattern,
+      resolveDates: this._resolveDates,
+    });
+  }
+
+  /**
+   * Replaces the identifier of this todo.
+   * Used by TodoList to keep ids stable when a file is parsed again.
+   * @param {string} id - The new identifier.
+   */
+  assignId(id: string): void {
+    this.change(["id"], () => {
+      this._id = id;
+    });
+  }
+
+  /**
+   * Generates a new unique identifier.
+   * @returns {string} A random UUID.
+   */
+  static generateId(): string {
+    if (
+      typeof window !== "undefined" &&
+      window.crypto &&
+      window.crypto.randomUUID
+    ) {
+      return window.crypto.randomUUID();
+    } else if (
+      globalThis.crypto &&
+      typeof globalThis.crypto.randomUUID === "function"
+    ) {
+      return globalThis.crypto.randomUUID();
+    }
+    // Fallback (should not occur in supported environments)
+    return Math.random().toString(36).substring(2, 9);
+  }
+
+  /**
+   * Reads the number of occurrences left from the `count:` key.
+   * @returns {number|undefined} The count, or undefined if not set or invalid.
+   * @private
+   */
+  private getRemainingCount(): number | undefined {
+    const value = this._keyValues["count"];
+    if (value === undefined) return undefined;
+    const count = parseInt(String(value), 10);
+    return isNaN(count) ? undefined : count;
+  }
+
+  /**
+   * Formats the values of a key for a todo.txt line, one per key-value pair.
+   * Declared keys are formatted by the schema; dates are written as YYYY-MM-DD.
+   * @param {string} key - The key name.
+   * @returns {string[]} The values as text.
+   * @private
+   */
+  private formatValues(key: string): string[] {
+    return this.getKeyValues(key).map((value) => {
+      if (this._schema?.has(key)) {
+        return this._schema.format(key, value);
+      }
+      if (value instanceof Date) {
+        return value.toISOString().split("T")[0];
+      }
+      return String(value);
     });
   }
 
   /**
-   * Gets today's date as a YYYY-MM-DD string.
+   * Resolves a date expression such as "tomorrow" or "fri" against today, if
+   * the todo resolves dates.
+   * @param {string} value - A date or date expression; see {@link DateExpression}.
+   * @returns {string} The resolved date, or the value if it is not resolved.
+   * @private
+   */
+  private resolveDate(value: string): string {
+    if (!this._resolveDates) return value;
+    return DateExpression.resolve(value, this.getTodayString()) ?? value;
+  }
+
+  /**
+   * Gets today's date from the default clock.
    * @returns {string} Today's date.
    * @private
    */
   private getTodayString(): string {
-    const today = new Date();
-    return today.toISOString().split("T")[0];
+    return Clock.getDefault().today();
+  }
+
+  /**
+   * Runs a mutation and notifies the change listeners about the fields that
+   * actually changed.
+   * @param {TodoField[]} fields - The fields the mutation may change.
+   * @param {function} mutate - The mutation.
+   * @private
+   */
+  private change(fields: TodoField[], mutate: () => void): void {
+    if (this._changeListeners.size === 0) {
+      mutate();
+      return;
+    }
+
+    const previous: Partial<Record<TodoField, any>> = {};
+    for (const field of fields) {
+      previous[field] = this.getFieldValue(field);
+    }
+
+    mutate();
+
+    const changed = fields.filter(
+      (field) => !this.valuesEqual(previous[field], this.getFieldValue(field))
+    );
+    if (changed.length === 0) return;
+
+    const change: TodoChange = { fields: changed, previous: {} };
+    for (const field of changed) {
+      change.previous[field] = previous[field];
+    }
+    for (const listener of [...this._changeListeners]) {
+      listener(this, change);
+    }
+  }
+
+  /**
+   * Returns a copy of a field's value.
+   * @param {TodoField} field - The field.
+   * @returns {any} The value of the field.
+   * @private
+   */
+  private getFieldValue(field: TodoField): any {
+    switch (field) {
+      case "id":
+        return this._id;
+      case "completed":
+        return this._completed;
+      case "priority":
+        return this._priority;
+      case "completionDate":
+        return this._completionDate;
+      case "creationDate":
+        return this._creationDate;
+      case "description":
+        return this._description;
+      case "projects":
+        return [...this._projects];
+      case "contexts":
+        return [...this._contexts];
+      case "tags":
+        return this.copyTags();
+      case "keyValues":
+        return this.copyKeyValues();
+    }
+  }
+
+  /**
+   * Builds the completion marker, priority and date parts of the line.
+   * @returns {string[]} The header parts in todo.txt order.
+   * @private
+   */
+  private headerParts(): string[] {
+    return this.headerFields({
+      completed: this._completed,
+      priority: this._priority,
+      completionDate: this._completionDate,
+      creationDate: this._creationDate,
+    }).map(([, text]) => text);
+  }
+
+  /**
+   * Builds the header parts of a line together with the field each one shows.
+   * @param {Object} header - The completion, priority and date fields.
+   * @returns {Array} The field and text of each header part in todo.txt order.
+   * @private
+   */
+  private headerFields(
+    header: Pick<
+      SourceSnapshot,
+      "completed" | "priority" | "completionDate" | "creationDate"
+    >
+  ): [TodoField, string][] {
+    const parts: [TodoField, string][] = [];
+
+    // Completion marker, then the priority: a completed todo only has one
+    // if it was kept on completion (see CompletedPriority)
+    if (header.completed) {
+      parts.push(["completed", "x"]);
+    }
+    if (header.priority) {
+      parts.push(["priority", header.priority]);
+    }
+    if (header.completed && header.completionDate) {
+      parts.push(["completionDate", header.completionDate]);
+    }
+
+    // Creation date (if present)
+    if (header.creationDate) {
+      parts.push(["creationDate", header.creationDate]);
+    }
+
+    return parts;
+  }
+
+  /**
+   * Returns the projects, contexts and custom tags that do not appear in the description.
+   * @returns {string[]} Tags that have to be appended to the line.
+   * @private
+   */
+  private missingTags(): string[] {
+    const custom = Object.values(this._tags).flat();
+    return [...this._projects, ...this._contexts, ...custom].filter(
+      (tag) => !this._description.includes(tag)
+    );
+  }
+
+  /**
+   * Returns a copy of the custom tags.
+   * @returns {TodoTags} The tags by the name of their token type.
+   * @private
+   */
+  private copyTags(): TodoTags {
+    const tags: TodoTags = {};
+    for (const type in this._tags) {
+      tags[type] = [...this._tags[type]];
+    }
+    return tags;
+  }
+
+  /**
+   * Rebuilds the source line, rewriting only the parts that were edited.
+   * @returns {string} The todo in todo.txt format with its original layout.
+   * @private
+   */
+  private toLosslessString(): string {
+    const tokens = this._sourceTokens!;
+    const snapshot = this._sourceSnapshot!;
+
+    if (!this.isModified()) {
+      return this.source!;
+    }
+
+    const pieces: LinePiece[] = [];
+
+    // Header: keep the original tokens unless one of its fields changed, and
+    // the spacing of the fields that are still there
+    if (this.isHeaderModified()) {
+      const original = this.headerFields(snapshot);
+      const spacing = new Map(
+        original.length === this._sourceHeaderLength
+          ? original.map(([field], i) => [field, tokens[i].leadingWhitespace])
+          : []
+      );
+      for (const [field, text] of this.headerFields(this)) {
+        pieces.push({ whitespace: spacing.get(field) ?? " ", text });
+      }
+    } else {
+      for (let i = 0; i < this._sourceHeaderLength; i++) {
+        pieces.push({
+          whitespace: tokens[i].leadingWhitespace,
+          text: tokens[i].value,
+        });
+      }
+    }
+
+    // The first token of a line without header needs a space after a new header
+    const headerCount = pieces.length;
+    const leading = (index: number) =>
+      index === 0 && headerCount > 0 ? " " : tokens[index].leadingWhitespace;
+
+    // Body: description words and key-value pairs in source order. Only the
+    // words that were edited are rewritten, so the pairs between them and the
+    // spacing of the other words stay as they were.
+    const words = this.sourceWords();
+    const edits = this.descriptionEdits(
+      words.map((indexes) => indexes.map((i) => tokens[i].value).join(""))
+    );
+    const wordAt = new Map(words.map((indexes, k) => [indexes[0], k]));
+    const writtenValues = new Map<string, number>();
+    const sourceKeys = new Set<string>();
+
+    for (let i = this._sourceHeaderLength; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (this.isSourcePair(i)) {
+        const whitespace = leading(i);
+        const valueToken = tokens[++i];
+        const key = token.value.slice(0, -1);
+        sourceKeys.add(key);
+
+        if (!(key in this._keyValues)) {
+          continue;
+        }
+
+        if (this.valuesEqual(this._keyValues[key], snapshot.keyValues[key])) {
+          pieces.push(
+            { whitespace, text: token.value },
+            { whitespace: valueToken.leadingWhitespace, text: valueToken.value }
+          );
+        } else {
+          // Write the new values in source order, one per occurrence of the key
+          const values = this.formatValues(key);
+          const index = writtenValues.get(key) ?? 0;
+          if (index < values.length) {
+            pieces.push(
+              { whitespace, text: token.value },
+              { whitespace: valueToken.leadingWhitespace, text: values[index] }
+            );
+          }
+          writtenValues.set(key, index + 1);
+        }
+        continue;
+      }
+
+      // New words in place of this one, or before the first word, take its spacing
+      const k = wordAt.get(i)!;
+      const [first, ...rest] = edits.before[k];
+      if (first) {
+        pieces.push({ whitespace: leading(i), text: first.text }, ...rest);
+      }
+      const indexes = words[k];
+      if (
+        edits.kept[k] &&
+        !(indexes.length === 1 && this.isRemovedTag(token))
+      ) {
+        for (const j of indexes) {
+          pieces.push({
+            whitespace: j === i ? leading(j) : tokens[j].leadingWhitespace,
+            text: tokens[j].value,
+          });
+        }
+      }
+      pieces.push(...edits.after[k]);
+      i = indexes[indexes.length - 1];
+    }
+
+    // A description added to a line that had none goes right after the header
+    if (words.length === 0 && this._description) {
+      const headerCount = this.isHeaderModified()
+        ? this.headerParts().length
+        : this._sourceHeaderLength;
+      pieces.splice(headerCount, 0, {
+        whitespace: " ",
+        text: this._description,
+      });
+    }
+
+    for (const tag of this.missingTags()) {
+      pieces.push({ whitespace: " ", text: tag });
+    }
+
+    // New keys, and values beyond the occurrences of a key in the source
+    for (const key in this._keyValues) {
+      if (!Object.prototype.hasOwnProperty.call(this._keyValues, key)) continue;
+      const written = sourceKeys.has(key) ? writtenValues.get(key) : 0;
+      if (written === undefined) continue;
+      for (const text of this.formatValues(key).slice(written)) {
+        pieces.push({ whitespace: " ", text: `${key}:${text}` });
+      }
+    }
+
+    if (pieces.length === 0) {
+      return "";
+    }
+
+    // The line keeps its original indentation and trailing whitespace
+    pieces[0].whitespace = tokens.length > 0 ? tokens[0].leadingWhitespace : "";
+    const trailing =
+      tokens.length > 0 ? tokens[tokens.length - 1].trailingWhitespace : "";
+
+    return pieces.map((p) => p.whitespace + p.text).join("") + trailing;
+  }
+
+  /**
+   * Checks whether a source token is the key of a key-value pair of the todo,
+   * rather than of a pair that was kept as description text.
+   * @param {number} index - Index of the token in the source tokens.
+   * @returns {boolean} True if the token and the next one form a pair.
+   * @private
+   */
+  private isSourcePair(index: number): boolean {
+    const tokens = this._sourceTokens!;
+    return (
+      tokens[index].type === TokenType.KEY &&
+      index + 1 < tokens.length &&
+      tokens[index].value.slice(0, -1) in this._sourceSnapshot!.keyValues
+    );
+  }
+
+  /**
+   * Groups the description tokens of the source line into the words of its
+   * description. A pair kept as text is one word of two tokens.
+   * @returns {number[][]} The token indexes of each word, in line order.
+   * @private
+   */
+  private sourceWords(): number[][] {
+    const tokens = this._sourceTokens!;
+    const words: number[][] = [];
+    for (let i = this._sourceHeaderLength; i < tokens.length; i++) {
+      if (this.isSourcePair(i)) {
+        i++;
+      } else if (words.length > 0 && tokens[i].leadingWhitespace === "") {
+        words[words.length - 1].push(i);
+      } else {
+        words.push([i]);
+      }
+    }
+    return words;
+  }
+
+  /**
+   * Works out how the description words of the source line turn into the
+   * words of the current description. Words both have in common are kept; new
+   * words take the place of the removed words between two kept ones, or else
+   * follow the previous kept word.
+   * @param {string[]} source - The description words of the source line.
+   * @returns {Object} Whether each source word is kept, and the new words
+   * written before and after it.
+   * @private
+   */
+  private descriptionEdits(source: string[]): {
+    kept: boolean[];
+    before: LinePiece[][];
+    after: LinePiece[][];
+  } {
+    const words = [...this._description.matchAll(/(\s*)(\S+)/g)].map(
+      ([, whitespace, text]) => ({ whitespace: whitespace || " ", text })
+    );
+    const matches = this.alignWords(
+      source,
+      words.map(({ text }) => text)
+    );
+    const before: LinePiece[][] = source.map(() => []);
+    const after: LinePiece[][] = source.map(() => []);
+
+    // Place the new words of each gap between two kept words
+    let previous = -1;
+    let next = 0;
+    for (let k = 0; k <= source.length; k++) {
+      if (k < source.length && matches[k] < 0) continue;
+      const end = k < source.length ? matches[k] : words.length;
+      const added = words.slice(next, end);
+      if (k > previous + 1) {
+        before[previous + 1].push(...added);
+      } else if (previous >= 0) {
+        after[previous].push(...added);
+      } else if (k < source.length) {
+        before[k].push(...added);
+      }
+      previous = k;
+      next = end + 1;
+    }
+
+    return { kept: matches.map((match) => match >= 0), before, after };
+  }
+
+  /**
+   * Pairs the words of two sequences along their longest common subsequence.
+   * @param {string[]} a - The first words.
+   * @param {string[]} b - The second words.
+   * @returns {number[]} The index in `b` of each word of `a`, or -1 if unpaired.
+   * @private
+   */
+  private alignWords(a: string[], b: string[]): number[] {
+    // lengths[i][j] is the length of the longest common subsequence of the
+    // words from a[i] and b[j] on
+    const lengths = Array.from({ length: a.length + 1 }, () =>
+      new Array<number>(b.length + 1).fill(0)
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const matches = new Array<number>(a.length).fill(-1);
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        matches[i++] = j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Checks whether a source token is a project, context or custom tag that was
+   * removed from the todo since parsing.
+   * @param {Token} token - The source token.
+   * @returns {boolean} True if the tag is no longer part of the todo.
+   * @private
+   */
+  private isRemovedTag(token: Token): boolean {
+    switch (token.type) {
+      case TokenType.PROJECT:
+        return !this._projects.includes(token.value);
+      case TokenType.CONTEXT:
+        return !this._contexts.includes(token.value);
+      case TokenType.CUSTOM:
+        return !this.getTags(token.customType!).includes(token.value);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Returns the original text of a source token including surrounding whitespace.
+   * @param {Token} token - The source token.
+   * @param {number} index - Index of the token in the source tokens.
+   * @returns {string} The raw text.
+   * @private
+   */
+  private rawTokenText(token: Token, index: number): string {
+    const isLast = index === this._sourceTokens!.length - 1;
+    return (
+      token.leadingWhitespace +
+      token.value +
+      (isLast ? token.trailingWhitespace : "")
+    );
+  }
+
+  /**
+   * Checks whether the completion, priority or date fields changed since parsing.
+   * @returns {boolean} True if the header has to be rewritten.
+   * @private
+   */
+  private isHeaderModified(): boolean {
+    const snapshot = this._sourceSnapshot;
+    if (!snapshot) return true;
+    return (
+      this._completed !== snapshot.completed ||
+      this._priority !== snapshot.priority ||
+      this._completionDate !== snapshot.completionDate ||
+      this._creationDate !== snapshot.creationDate
+    );
+  }
+
+  /**
+   * Copies the key-value pairs, including any array values.
+   * @returns {Object} A copy of the key-value pairs.
+   * @private
+   */
+  private copyKeyValues(): { [key: string]: any } {
+    const copy: { [key: string]: any } = {};
+    for (const key in this._keyValues) {
+      const value = this._keyValues[key];
+      copy[key] = Array.isArray(value) ? [...value] : value;
+    }
+    return copy;
+  }
+
+  /**
+   * Compares two sets of key-value pairs.
+   * @param {Object} a - First set of key-value pairs.
+   * @param {Object} b - Second set of key-value pairs.
+   * @returns {boolean} True if both contain the same keys with equal values.
+   * @private
+   */
+  private keyValuesEqual(
+    a: { [key: string]: any },
+    b: { [key: string]: any }
+  ): boolean {
+    const keysA = Object.keys(a);
+    if (keysA.length !== Object.keys(b).length) return false;
+    return keysA.every((key) => key in b && this.valuesEqual(a[key], b[key]));
+  }
+
+  /**
+   * Compares two key-value values, looking inside arrays and dates.
+   * @param {any} a - First value.
+   * @param {any} b - Second value.
+   * @returns {boolean} True if the values are equal.
+   * @private
+   */
+  private valuesEqual(a: any, b: any): boolean {
+    if (this.isPlainObject(a) && this.isPlainObject(b)) {
+      return this.keyValuesEqual(a, b);
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return (
+        a.length === b.length && a.every((v, i) => this.valuesEqual(v, b[i]))
+      );
+    }
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() === b.getTime();
+    }
+    return a === b;
+  }
+
+  /**
+   * Checks if a value is a plain object such as the key-value map.
+   * @param {any} value - The value to check.
+   * @returns {boolean} True for plain objects.
+   * @private
+   */
+  private isPlainObject(value: any): boolean {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      Object.getPrototypeOf(value) === Object.prototype
+    );
   }
 }
@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Provides the TodoDiff class describing the changes between two versions of a todo list.
+ * A diff lists added, removed and modified todos with their field changes and
+ * can be rendered as human-readable text.
+ * @module TodoDiff
+ */
+
+import { Todo, TodoContentField, TodoField } from "./Todo";
+import { TodoList } from "./TodoList";
+import { TodoMatcher, TodoMatcherOptions } from "./TodoMatcher";
+
+/**
+ * A change of one field of a todo.
+ */
+export interface FieldChange {
+  /** The changed field */
+  field: TodoField;
+
+  /** The changed key if the field is "keyValues", or the token type if it is "tags" */
+  key?: string;
+
+  /** The value before the change; undefined if it was not set */
+  before: any;
+
+  /** The value after the change; undefined if it was removed */
+  after: any;
+}
+
+/**
+ * A todo that exists in both versions with different fields.
+ */
+export interface TodoModification {
+  /** The todo in the old version */
+  before: Todo;
+
+  /** The todo in the new version */
+  after: Todo;
+
+  /** The changed fields, with one entry per changed key of "keyValues" */
+  changes: FieldChange[];
+}
+
+/** Labels of the fields in rendered diffs */
+const FIELD_LABELS: Record<TodoField, string> = {
+  id: "id",
+  completed: "completed",
+  priority: "priority",
+  completionDate: "completion date",
+  creationDate: "creation date",
+  description: "description",
+  projects: "projects",
+  contexts: "contexts",
+  tags: "tags",
+  keyValues: "key",
+};
+
+/**
+ * The changes between two versions of a todo list.
+ * Todos are paired across the versions like in a merge: by identifying key if
+ * configured, then by identical text, then by similar description.
+ */
+export class TodoDiff {
+  /** Todos only in the new version */
+  readonly added: Todo[] = [];
+
+  /** Todos only in the old version */
+  readonly removed: Todo[] = [];
+
+  /** Todos in both versions whose fields changed */
+  readonly modified: TodoModification[] = [];
+
+  /**
+   * Computes the diff between two versions of a list.
+   * @param {TodoList} before - The old version.
+   * @param {TodoList} after - The new version.
+   * @param {TodoMatcherOptions} [options] - Options for pairing the todos.
+   */
+  constructor(before: TodoList, after: TodoList, options?: TodoMatcherOptions) {
+    const pairs = new TodoMatcher(options).match(
+      before.getTodos(),
+      after.getTodos()
+    );
+    const paired = new Set(pairs.values());
+
+    this.removed = before.getTodos().filter((todo) => !paired.has(todo));
+    for (const todo of after.getTodos()) {
+      const original = pairs.get(todo);
+      if (!original) {
+        this.added.push(todo);
+        continue;
+      }
+      const changes = TodoDiff.compareTodos(original, todo);
+      if (changes.length > 0) {
+        this.modified.push({ before: original, after: todo, changes });
+      }
+    }
+  }
+
+  /**
+   * Compares the fields of two versions of a todo.
+   * Projects and contexts are compared as sets and key-value pairs per key.
+   * @param {Todo} before - The old version of the todo.
+   * @param {Todo} after - The new version of the todo.
+   * @returns {FieldChange[]} The changed fields, in todo.txt order.
+   */
+  static compareTodos(before: Todo, after: Todo): FieldChange[] {
+    const changes: FieldChange[] = [];
+    const beforeFields = before.getFields();
+    const afterFields = after.getFields();
+
+    for (const field of Object.keys(afterFields) as TodoContentField[]) {
+      const a = beforeFields[field];
+      const b = afterFields[field];
+      switch (field) {
+        case "projects":
+        case "contexts":
+          if (!TodoDiff.valuesEqual([...a].sort(), [...b].sort())) {
+            changes.push({ field, before: a, after: b });
+          }
+          break;
+        case "tags": {
+          const types = new Set([...Object.keys(a), ...Object.keys(b)]);
+          for (const type of types) {
+            const before = a[type] ?? [];
+            const after = b[type] ?? [];
+            if (!TodoDiff.valuesEqual([...before].sort(), [...after].sort())) {
+              changes.push({ field, key: type, before, after });
+            }
+          }
+          break;
+        }
+        case "keyValues": {
+          const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+          for (const key of keys) {
+            if (!TodoDiff.valuesEqual(a[key], b[key])) {
+              changes.push({ field, key, before: a[key], after: b[key] });
+            }
+          }
+          break;
+        }
+        default:
+          if (!TodoDiff.valuesEqual(a, b)) {
+            changes.push({ field, before: a, after: b });
+          }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Checks whether the versions are identical.
+   * @returns {boolean} True if nothing was added, removed or modified.
+   */
+  public isEmpty(): boolean {
+    return (
+      this.added.length === 0 &&
+      this.removed.length === 0 &&
+      this.modified.length === 0
+    );
+  }
+
+  /**
+   * Renders the diff as text: one line per added (+), removed (-) and
+   * modified (~) todo, followed by an indented line per field change.
+   * @returns {string} The rendered diff, or an empty string if nothing changed.
+   */
+  public render(): string {
+    const lines: string[] = [];
+
+    for (const todo of this.added) {
+      lines.push(`+ ${todo.toString()}`);
+    }
+    for (const todo of this.removed) {
+      lines.push(`- ${todo.toString()}`);
+    }
+    for (const { after, changes } of this.modified) {
+      lines.push(`~ ${after.toString()}`);
+      for (const change of changes) {
+        lines.push(`    ${this.renderChange(change)}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Renders a single field change.
+   * @param {FieldChange} change - The change to render.
+   * @returns {string} The change as "label: before -> after".
+   * @private
+   */
+  private renderChange(change: FieldChange): string {
+    const label = change.key
+      ? `${FIELD_LABELS[change.field]} ${change.key}`
+      : FIELD_LABELS[change.field];
+
+    if (["projects", "contexts", "tags"].includes(change.field)) {
+      const before: string[] = change.before;
+      const after: string[] = change.after;
+      const added = after.filter((tag) => !before.includes(tag));
+      const removed = before.filter((tag) => !after.includes(tag));
+      const parts: string[] = [];
+      if (added.length > 0) parts.push(`added ${added.join(" ")}`);
+      if (removed.length > 0) parts.push(`removed ${removed.join(" ")}`);
+      return `${label}: ${parts.join(", ")}`;
+    }
+
+    return `${label}: ${this.renderValue(change.before)} -> ${this.renderValue(
+      change.after
+    )}`;
+  }
+
+  /**
+   * Renders a field value.
+   * @param {any} value - The value to render.
+   * @returns {string} The value as text, "(none)" if it is not set.
+   * @private
+   */
+  private renderValue(value: any): string {
+    if (value === undefined || value === null || value === "") {
+      return "(none)";
+    }
+    if (value instanceof Date) {
+      return value.toISOString().split("T")[0];
+    }
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }
+
+  /**
+   * Compares two field values, looking inside arrays, dates and objects; the
+   * order of object keys does not matter. Shared with {@link TodoMerger},
+   * which decides per field which side changed.
+   * @param {any} a - The first value.
+   * @param {any} b - The second value.
+   * @returns {boolean} True if both values are equal.
+   */
+  static valuesEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return (
+        a.length === b.length &&
+        a.every((value, i) => TodoDiff.valuesEqual(value, b[i]))
+      );
+    }
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() === b.getTime();
+    }
+    if (TodoDiff.isPlainObject(a) && TodoDiff.isPlainObject(b)) {
+      const keys = Object.keys(a);
+      return (
+        keys.length === Object.keys(b).length &&
+        keys.every(
+          (key) =>
+            Object.prototype.hasOwnProperty.call(b, key) &&
+            TodoDiff.valuesEqual(a[key], b[key])
+        )
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Checks if a value is a plain object such as the key-value map.
+   * @param {any} value - The value to check.
+   * @returns {boolean} True for plain objects.
+   * @private
+   */
+  private static isPlainObject(value: any): boolean {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      Object.getPrototypeOf(value) === Object.prototype
+    );
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Provides the TodoHistory class for undoing and redoing changes to a TodoList.
+ * The history records the change events of a list, so every change made through the
+ * list or directly on one of its todos can be reversed.
+ * @module TodoHistory
+ */
+
+import { Todo, TodoField } from "./Todo";
+import { TodoList } from "./TodoList";
+import { TodoListEvent } from "./TodoListEvents";
+
+/**
+ * Configuration options for a TodoHistory.
+ */
+export interface TodoHistoryOptions {
+  /** Maximum number of undo steps that are kept. Defaults to 100. */
+  limit?: number;
+}
+
+/**
+ * A recorded change that can be undone and redone.
+ * @private
+ */
+type HistoryEntry =
+  | { type: "added"; todos: Todo[]; index: number }
+  | { type: "removed"; todos: Todo[]; indexes: number[] }
+  | {
+      type: "updated";
+      todo: Todo;
+      previous: Partial<Record<TodoField, any>>;
+      next: Partial<Record<TodoField, any>>;
+    }
+  | { type: "reordered"; previous: Todo[]; order: Todo[] }
+  | { type: "reset"; previous: Todo[]; todos: Todo[] };
+
+/**
+ * Undo/redo history for a TodoList.
+ * Each change notification of the list becomes one undo step, so changes made
+ * inside {@link TodoList.batch} or {@link TodoHistory.group} are undone together.
+ */
+export class TodoHistory {
+  /** Steps that can be undone, oldest first */
+  private undoStack: HistoryEntry[][] = [];
+
+  /** Steps that can be redone, most recently undone last */
+  private redoStack: HistoryEntry[][] = [];
+
+  /** True while the history itself changes the list */
+  private applying: boolean = false;
+
+  /** Maximum number of undo steps */
+  private limit: number;
+
+  /** Stops recording the list's events */
+  private unsubscribe: () => void;
+
+  /**
+   * Starts recording the changes of a todo list.
+   * @param {TodoList} list - The list to record.
+   * @param {TodoHistoryOptions} [options] - Optional configuration.
+   */
+  constructor(private list: TodoList, options?: TodoHistoryOptions) {
+    this.limit = options?.limit ?? 100;
+    this.unsubscribe = list.subscribe((events) => this.record(events));
+  }
+
+  /** Whether there is a step to undo */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /** Whether there is a step to redo */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Runs a function and records all changes it makes as a single undo step.
+   * @param {function} fn - The function making the changes.
+   * @returns {T} The return value of the function.
+   */
+  public group<T>(fn: () => T): T {
+    return this.list.batch(fn);
+  }
+
+  /**
+   * Reverts the most recent step.
+   * @returns {boolean} True if a step was undone.
+   */
+  public undo(): boolean {
+    const step = this.undoStack.pop();
+    if (!step) return false;
+
+    this.apply(() => {
+      for (let i = step.length - 1; i >= 0; i--) {
+        this.revert(step[i]);
+      }
+    });
+    this.redoStack.push(step);
+    return true;
+  }
+
+  /**
+   * Reapplies the most recently undone step.
+   * @returns {boolean} True if a step was redone.
+   */
+  public redo(): boolean {
+    const step = this.redoStack.pop();
+    if (!step) return false;
+
+    this.apply(() => {
+      for (const entry of step) {
+        this.replay(entry);
+      }
+    });
+    this.undoStack.push(step);
+    return true;
+  }
+
+  /**
+   * Forgets all recorded steps.
+   */
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Stops recording changes. The recorded steps are discarded.
+   */
+  public dispose(): void {
+    this.unsubscribe();
+    this.clear();
+  }
+
+  /**
+   * Records the events of one notification as an undo step.
+   * @param {TodoListEvent[]} events - The events of the notification.
+   * @private
+   */
+  private record(events: TodoListEvent[]): void {
+    if (this.applying) return;
+
+    const step = events.map((event): HistoryEntry => {
+      switch (event.type) {
+        case "updated": {
+          // The todo holds the values after the change
+          const next: Partial<Record<TodoField, any>> = {};
+          for (const field of event.fields) {
+            next[field] = event.todo[field];
+          }
+          return {
+            type: "updated",
+            todo: event.todo,
+            previous: event.previous,
+            next,
+          };
+        }
+        case "reset":
+          return {
+            type: "reset",
+            previous: event.previous,
+            todos: event.todos,
+          };
+        default:
+          return event;
+      }
+    });
+
+    this.undoStack.push(step);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Reverts a single entry.
+   * @param {HistoryEntry} entry - The entry to revert.
+   * @private
+   */
+  private revert(entry: HistoryEntry): void {
+    switch (entry.type) {
+      case "added":
+        for (const todo of entry.todos) {
+          this.list.deleteTodo(todo);
+        }
+        break;
+      case "removed":
+        entry.todos.forEach((todo, i) =>
+          this.list.insertTodo(todo, entry.indexes[i])
+        );
+        break;
+      case "updated":
+        entry.todo.setFields(entry.previous);
+        break;
+      case "reordered":
+        this.list.reorder(entry.previous);
+        break;
+      case "reset":
+        this.list.parse(entry.previous);
+        break;
+    }
+  }
+
+  /**
+   * Reapplies a single entry.
+   * @param {HistoryEntry} entry - The entry to reapply.
+   * @private
+   */
+  private replay(entry: HistoryEntry): void {
+    switch (entry.type) {
+      case "added":
+        entry.todos.forEach((todo, i) =>
+          this.list.insertTodo(todo, entry.index + i)
+        );
+        break;
+      case "removed":
+        for (const todo of entry.todos) {
+          this.list.deleteTodo(todo);
+        }
+        break;
+      case "updated":
+        entry.todo.setFields(entry.next);
+        break;
+      case "reordered":
+        this.list.reorder(entry.order);
+        break;
+      case "reset":
+        this.list.parse(entry.todos);
+        break;
+    }
+  }
+
+  /**
+   * Runs changes made by the history as one notification without recording them.
+   * @param {function} fn - The changes to make.
+   * @private
+   */
+  private apply(fn: () => void): void {
+    this.applying = true;
+    try {
+      this.list.batch(fn);
+    } finally {
+      this.applying = false;
+    }
+  }
+}
@@ -0,0 +1,466 @@
+/**
+ * @fileoverview Provides the TodoIndex class, the secondary indexes of a TodoList.
+ * The indexes are updated as todos are added, removed and changed, so lookups
+ * by id, project, context, key-value pair and due date do not scan the list.
+ * @module TodoIndex
+ */
+
+import { Todo } from "./Todo";
+
+/**
+ * The indexed values of a todo, kept to remove its entries once it changed.
+ * @private
+ */
+interface IndexedValues {
+  id: string;
+  projects: readonly string[];
+  contexts: readonly string[];
+  keyValues: [string, any][];
+  due?: string;
+}
+
+/**
+ * A todo in the due date index.
+ * @private
+ */
+interface DueEntry<V extends Record<string, any>> {
+  due: string;
+  todo: Todo<V>;
+}
+
+/**
+ * Indexes the todos of a list by id, project, context, key-value pair and due date.
+ * Lookups return todos in the order of the list, like a scan of the list would.
+ *
+ * The index does not watch the todos itself: the owner reports added, removed
+ * and changed todos, reports where todos are inserted with
+ * {@link TodoIndex.inserted}, and calls {@link TodoIndex.moved} when todos
+ * are reordered.
+ *
+ * Todos are ordered by order keys, numbers that increase along the list. A
+ * todo inserted between two others gets a key between theirs, so inserting
+ * and removing todos keeps the order of the others without renumbering them.
+ */
+export class TodoIndex<V extends Record<string, any> = Record<string, any>> {
+  /** The indexed values of each todo */
+  private indexed: Map<Todo<V>, IndexedValues> = new Map();
+
+  /** Todos by id; ids are unique unless todos with the same id were added */
+  private ids: Map<string, Set<Todo<V>>> = new Map();
+
+  /** Todos by project */
+  private projects: Map<string, Set<Todo<V>>> = new Map();
+
+  /** Todos by context */
+  private contexts: Map<string, Set<Todo<V>>> = new Map();
+
+  /** Todos by key and value */
+  private keys: Map<string, Map<any, Set<Todo<V>>>> = new Map();
+
+  /** Todos with a due date, sorted by due date */
+  private dues: DueEntry<V>[] = [];
+
+  /** Order key of each todo, increasing along the list; rebuilt when first needed after a reorder */
+  private order?: Map<Todo<V>, number>;
+
+  /** Sorted project, context and key names, cached until a name is added or removed */
+  private names: { projects?: string[]; contexts?: string[]; keys?: string[] } =
+    {};
+
+  /**
+   * Creates an index.
+   * @param {function} todos - Returns the todos of the list in order.
+   */
+  constructor(private readonly todos: () => Todo<V>[]) {}
+
+  /**
+   * Indexes all todos of the list again.
+   * @param {Todo<V>[]} todos - The todos to index.
+   */
+  public reset(todos: Todo<V>[]): void {
+    this.indexed.clear();
+    this.ids.clear();
+    this.projects.clear();
+    this.contexts.clear();
+    this.keys.clear();
+    this.dues = [];
+    this.names = {};
+    this.order = undefined;
+    for (const todo of todos) {
+      this.addEntries(todo, false);
+    }
+    this.dues.sort((a, b) => (a.due < b.due ? -1 : a.due > b.due ? 1 : 0));
+  }
+
+  /**
+   * Adds a todo to the index. Adding an indexed todo again does nothing.
+   * @param {Todo<V>} todo - The todo.
+   */
+  public add(todo: Todo<V>): void {
+    this.addEntries(todo, true);
+  }
+
+  /**
+   * Removes a todo from the index.
+   * @param {Todo<V>} todo - The todo.
+   */
+  public remove(todo: Todo<V>): void {
+    this.order?.delete(todo);
+    this.removeEntries(todo);
+  }
+
+  /**
+   * Indexes a changed todo again.
+   * @param {Todo<V>} todo - The todo.
+   */
+  public update(todo: Todo<V>): void {
+    if (!this.indexed.has(todo)) return;
+    this.removeEntries(todo);
+    this.add(todo);
+  }
+
+  /**
+   * Gives a todo inserted into the list an order key between the keys of its
+   * nearest neighbors that have one.
+   * @param {Todo<V>} todo - The todo.
+   * @param {number} position - Its position in the list.
+   */
+  public inserted(todo: Todo<V>, position: number): void {
+    const order = this.order;
+    if (!order) return;
+
+    const todos = this.todos();
+    let before: number | undefined;
+    for (let i = position - 1; i >= 0 && before === undefined; i--) {
+      before = order.get(todos[i]);
+    }
+    let after: number | undefined;
+    for (let i = position + 1; i < todos.length && after === undefined; i++) {
+      after = order.get(todos[i]);
+    }
+
+    let key: number;
+    if (before === undefined && after === undefined) {
+      key = 0;
+    } else if (before === undefined) {
+      key = after! - 1;
+    } else if (after === undefined) {
+      key = before + 1;
+    } else {
+      key = (before + after) / 2;
+      // No number is left between the neighbors: renumber on the next lookup
+      if (key <= before || key >= after) {
+        this.order = undefined;
+        return;
+      }
+    }
+    order.set(todo, key);
+  }
+
+  /**
+   * Notes that todos were reordered.
+   */
+  public moved(): void {
+    this.order = undefined;
+  }
+
+  /**
+   * Gets the first todo of the list with an id.
+   * @param {string} id - The id.
+   * @returns {Todo<V>|undefined} The todo, or undefined if no todo has the id.
+   */
+  public getById(id: string): Todo<V> | undefined {
+    const todos = this.ids.get(id);
+    if (!todos) return undefined;
+    if (todos.size === 1) return todos.values().next().value;
+    return this.inListOrder(todos)[0];
+  }
+
+  /**
+   * Gets the todos with a project.
+   * @param {string} project - The project name.
+   * @returns {Todo<V>[]} The todos in list order.
+   */
+  public getByProject(project: string): Todo<V>[] {
+    return this.inListOrder(this.projects.get(project));
+  }
+
+  /**
+   * Gets the todos with a context.
+   * @param {string} context - The context name.
+   * @returns {Todo<V>[]} The todos in list order.
+   */
+  public getByContext(context: string): Todo<V>[] {
+    return this.inListOrder(this.contexts.get(context));
+  }
+
+  /**
+   * Gets the todos with a value among the values of a key. A key holding an
+   * array, such as a list of the key schema, matches each of its elements.
+   * @param {string} key - The key name.
+   * @param {any} value - The value.
+   * @returns {Todo<V>[]} The todos in list order.
+   */
+  public getByKeyValue(key: string, value: any): Todo<V>[] {
+    return this.inListOrder(this.keys.get(key)?.get(value));
+  }
+
+  /**
+   * Gets the todos due within a range of dates.
+   * @param {string} [start] - The first date, inclusive. Unbounded if omitted.
+   * @param {string} [end] - The last date, inclusive. Unbounded if omitted.
+   * @returns {Todo<V>[]} The todos in list order.
+   */
+  public getDueBetween(start?: string, end?: string): Todo<V>[] {
+    const from = start === undefined ? 0 : this.lowerBound(start);
+    const to = end === undefined ? this.dues.length : this.upperBound(end);
+    return this.inListOrder(this.dues.slice(from, to).map(({ todo }) => todo));
+  }
+
+  /**
+   * Gets the todos due before a date.
+   * @param {string} date - The date, exclusive.
+   * @returns {Todo<V>[]} The todos in list order.
+   */
+  public getDueBefore(date: string): Todo<V>[] {
+    return this.inListOrder(
+      this.dues.slice(0, this.lowerBound(date)).map(({ todo }) => todo)
+    );
+  }
+
+  /**
+   * Gets the names of all projects.
+   * @returns {string[]} The sorted project names.
+   */
+  public getProjects(): string[] {
+    if (!this.names.projects) {
+      this.names.projects = Array.from(this.projects.keys()).sort();
+    }
+    return [...this.names.projects];
+  }
+
+  /**
+   * Gets the names of all contexts.
+   * @returns {string[]} The sorted context names.
+   */
+  public getContexts(): string[] {
+    if (!this.names.contexts) {
+      this.names.contexts = Array.from(this.contexts.keys()).sort();
+    }
+    return [...this.names.contexts];
+  }
+
+  /**
+   * Gets the names of all keys.
+   * @returns {string[]} The sorted key names.
+   */
+  public getKeyNames(): string[] {
+    if (!this.names.keys) {
+      this.names.keys = Array.from(this.keys.keys()).sort();
+    }
+    return [...this.names.keys];
+  }
+
+  /**
+   * Adds the entries of a todo to the indexes.
+   * @param {Todo<V>} todo - The todo.
+   * @param {boolean} sorted - Whether to keep the due date index sorted.
+   * @private
+   */
+  private addEntries(todo: Todo<V>, sorted: boolean): void {
+    if (this.indexed.has(todo)) return;
+
+    // Each element of a stored array is indexed, as lists and repeated keys
+    // both match any of their elements
+    const keyValues: [string, any][] = [];
+    for (const [key, stored] of Object.entries(todo.keyValues)) {
+      for (const value of Array.isArray(stored) ? stored : [stored]) {
+        keyValues.push([key, value]);
+      }
+    }
+    const due = todo.keyValues["due"];
+    const values: IndexedValues = {
+      id: todo.id,
+      projects: [...todo.projects],
+      contexts: [...todo.contexts],
+      keyValues,
+      due: typeof due === "string" && due !== "" ? due : undefined,
+    };
+    this.indexed.set(todo, values);
+
+    this.addEntry(this.ids, values.id, todo);
+    for (const project of values.projects) {
+      if (this.addEntry(this.projects, project, todo)) {
+        this.names.projects = undefined;
+      }
+    }
+    for (const context of values.contexts) {
+      if (this.addEntry(this.contexts, context, todo)) {
+        this.names.contexts = undefined;
+      }
+    }
+    for (const [key, value] of keyValues) {
+      let byValue = this.keys.get(key);
+      if (!byValue) {
+        byValue = new Map();
+        this.keys.set(key, byValue);
+        this.names.keys = undefined;
+      }
+      this.addEntry(byValue, value, todo);
+    }
+    if (values.due !== undefined) {
+      const entry = { due: values.due, todo };
+      if (sorted) {
+        this.dues.splice(this.upperBound(values.due), 0, entry);
+      } else {
+        this.dues.push(entry);
+      }
+    }
+  }
+
+  /**
+   * Removes the entries of a todo from the indexes.
+   * @param {Todo<V>} todo - The todo.
+   * @private
+   */
+  private removeEntries(todo: Todo<V>): void {
+    const values = this.indexed.get(todo);
+    if (!values) return;
+
+    this.indexed.delete(todo);
+    this.removeEntry(this.ids, values.id, todo);
+    for (const project of values.projects) {
+      if (this.removeEntry(this.projects, project, todo)) {
+        this.names.projects = undefined;
+      }
+    }
+    for (const context of values.contexts) {
+      if (this.removeEntry(this.contexts, context, todo)) {
+        this.names.contexts = undefined;
+      }
+    }
+    for (const [key, value] of values.keyValues) {
+      const byValue = this.keys.get(key);
+      if (byValue && this.removeEntry(byValue, value, todo)) {
+        if (byValue.size === 0) {
+          this.keys.delete(key);
+          this.names.keys = undefined;
+        }
+      }
+    }
+    if (values.due !== undefined) {
+      const due = values.due;
+      for (let i = this.lowerBound(due); i < this.dues.length; i++) {
+        if (this.dues[i].due !== due) break;
+        if (this.dues[i].todo === todo) {
+          this.dues.splice(i, 1);
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds a todo to the set of a value.
+   * @param {Map} index - The index.
+   * @param {any} value - The value.
+   * @param {Todo<V>} todo - The todo.
+   * @returns {boolean} True if the value was not in the index before.
+   * @private
+   */
+  private addEntry<K>(
+    index: Map<K, Set<Todo<V>>>,
+    value: K,
+    todo: Todo<V>
+  ): boolean {
+    const todos = index.get(value);
+    if (todos) {
+      todos.add(todo);
+      return false;
+    }
+    index.set(value, new Set([todo]));
+    return true;
+  }
+
+  /**
+   * Removes a todo from the set of a value.
+   * @param {Map} index - The index.
+   * @param {any} value - The value.
+   * @param {Todo<V>} todo - The todo.
+   * @returns {boolean} True if no todo has the value anymore.
+   * @private
+   */
+  private removeEntry<K>(
+    index: Map<K, Set<Todo<V>>>,
+    value: K,
+    todo: Todo<V>
+  ): boolean {
+    const todos = index.get(value);
+    if (!todos) return false;
+    todos.delete(todo);
+    if (todos.size > 0) return false;
+    index.delete(value);
+    return true;
+  }
+
+  /**
+   * Returns todos in the order of the list.
+   * @param {Iterable<Todo<V>>} [todos] - The todos.
+   * @returns {Todo<V>[]} A new array of the todos in list order.
+   * @private
+   */
+  private inListOrder(todos?: Iterable<Todo<V>>): Todo<V>[] {
+    if (!todos) return [];
+    if (!this.order) {
+      const order = new Map<Todo<V>, number>();
+      this.todos().forEach((todo, i) => {
+        if (!order.has(todo)) order.set(todo, i);
+      });
+      this.order = order;
+    }
+    const order = this.order;
+    return Array.from(todos).sort(
+      (a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0)
+    );
+  }
+
+  /**
+   * Finds the first entry of the due date index due on or after a date.
+   * @param {string} date - The date.
+   * @returns {number} The index of the entry.
+   * @private
+   */
+  private lowerBound(date: string): number {
+    let low = 0;
+    let high = this.dues.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.dues[middle].due < date) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Finds the first entry of the due date index due after a date.
+   * @param {string} date - The date.
+   * @returns {number} The index of the entry.
+   * @private
+   */
+  private upperBound(date: string): number {
+    let low = 0;
+    let high = this.dues.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.dues[middle].due <= date) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
@@ -5,24 +5,186 @@
  * @module TodoList
  */
 
-import { Scanner } from "./Scanner";
+import { Scanner, ScannerOptions } from "./Scanner";
 import { Parser, ParserOptions } from "./Parser";
-import { Todo, RecurrencePattern } from "./Todo";
+import {
+  Todo,
+  RecurrencePattern,
+  TodoSerializeOptions,
+  CompletedPriority,
+} from "./Todo";
+import { ParseDiagnostic } from "./TodoParsingError";
+import { ParsedTodo, TodoReader, TodoTextStream } from "./TodoReader";
+import { TodoIndex } from "./TodoIndex";
+import { Query, QueryOptions } from "./Query";
+import { TodoMatcher } from "./TodoMatcher";
+import { CalendarDate } from "./CalendarDate";
+import { Clock } from "./Clock";
+import { KeySchema } from "./KeySchema";
+import {
+  TodoListEmitter,
+  TodoListEventMap,
+  TodoListSubscriber,
+} from "./TodoListEvents";
+
+/**
+ * A field todos can be sorted by. Use "key:name" to sort by any key-value pair.
+ */
+export type SortField =
+  | "priority"
+  | "due"
+  | "creation"
+  | "completion"
+  | "description"
+  | "project"
+  | "context"
+  | "completed"
+  | "threshold"
+  | `key:${string}`;
+
+/**
+ * A sort key with its direction and the placement of todos without a value.
+ */
+export interface SortKey {
+  /** The field to sort by */
+  field: SortField;
+
+  /** Sort direction. Defaults to "asc". */
+  direction?: "asc" | "desc";
+
+  /** Whether todos without a value go "first" or "last". Defaults to "last". */
+  missing?: "first" | "last";
+}
+
+/**
+ * One or more sort keys, given as field names or SortKey objects.
+ */
+export type SortCriteria = SortField | SortKey | Array<SortField | SortKey>;
+
+/**
+ * How todos keep their ids when a todotxt text is parsed again.
+ * - "match": reuse the id of the previous todo with the same text, or failing
+ *   that, the most similar description (default)
+ * - "key": persist the id as a key-value pair (`id:...`) in each line
+ * - "hash": derive the id from the content of the line
+ * - "random": give every parsed todo a new id
+ */
+export type TodoIdentity = "match" | "key" | "hash" | "random";
+
+/**
+ * Configuration options for a TodoList.
+ */
+export interface TodoListOptions<
+  V extends Record<string, any> = Record<string, any>
+> {
+  /** How todos keep their ids across parses. Defaults to "match". */
+  identity?: TodoIdentity;
+
+  /** Key holding the id for the "key" strategy. Defaults to "id". */
+  idKey?: string;
+
+  /** Clock providing today's date for this list. Defaults to the global clock. */
+  clock?: Clock;
+
+  /** Types of the key-value pairs of parsed todos; see {@link KeySchema} */
+  schema?: KeySchema<V>;
+
+  /** What {@link TodoList.complete} does with the priority. Defaults to "drop". */
+  completedPriority?: CompletedPriority;
+
+  /** Options of the scanner that splits lines into tokens */
+  scanner?: ScannerOptions;
+}
+
+/**
+ * Options for completing a todo with {@link TodoList.complete}.
+ */
+export interface CompleteOptions {
+  /** The completion date in YYYY-MM-DD format. Defaults to today. */
+  date?: string;
+
+  /** Whether the next occurrence gets today's creation date instead of a shifted one */
+  setCreationDate?: boolean;
+
+  /** A list (e.g. the done list) the completed todo is moved to */
+  archive?: TodoList;
+}
+
+/**
+ * The todos affected by {@link TodoList.complete}.
+ */
+export interface CompleteResult<
+  V extends Record<string, any> = Record<string, any>
+> {
+  /** The completed todo */
+  completed: Todo<V>;
+
+  /** The next occurrence of a recurring todo, if any */
+  next?: Todo<V>;
+}
+
+/**
+ * An edit of the text a list was parsed from, as sent by an editor: the text
+ * between two offsets is replaced by a new text.
+ */
+export interface TextEdit {
+  /** Offset of the first replaced character */
+  from: number;
+
+  /** Offset just past the last replaced character; equal to `from` for an insertion */
+  to: number;
+
+  /** The text inserted in place of the replaced range */
+  text: string;
+}
+
+/**
+ * The text a list was parsed from, kept for incremental re-parsing.
+ * @private
+ */
+interface ParsedSource<V extends Record<string, any>> {
+  /** The full text */
+  text: string;
+
+  /** The todo of each line of the text, or undefined for blank lines */
+  lines: (Todo<V> | undefined)[];
+}
 
 /**
  * A class representing a collection of todo.txt todos.
  * Provides methods for parsing, managing, and querying todos in the todo.txt format.
  */
-export class TodoList {
+export class TodoList<V extends Record<string, any> = Record<string, any>> {
   /** Array of Todo objects managed by this TodoList */
-  todos: Todo[];
+  todos: Todo<V>[];
+
+  /** Diagnostics collected by the last parse of a todotxt string */
+  private diagnostics: ParseDiagnostic[] = [];
+
+  /** The text of the last parse, for {@link TodoList.applyTextEdit} */
+  private source?: ParsedSource<V>;
+
+  /** Delivers change events to listeners */
+  private emitter: TodoListEmitter = new TodoListEmitter();
+
+  /** Removes the change listener of each todo in the list */
+  private todoSubscriptions: Map<Todo<V>, () => void> = new Map();
+
+  /** Indexes the todos for lookups by id, project, context, key and due date */
+  private index: TodoIndex<V> = new TodoIndex(() => this.todos);
+
+  /** List configuration options */
+  private options: TodoListOptions<V> &
+    Required<Pick<TodoListOptions, "identity" | "idKey">>;
 
   /**
    * Creates a new TodoList instance.
    * @param {string} [text] - Optional todotxt text to parse into todos.
+   * @param {TodoListOptions} [options] - Optional configuration.
    */
-  constructor(text?: string) {
+  constructor(text?: string, options?: TodoListOptions<V>) {
     this.todos = [];
+    this.options = { identity: "match", idKey: "id", ...options };
 
     if (text) {
       this.parse(text);
@@ -31,51 +193,295 @@ export class TodoList {
 
   /**
    * Parse a multiline todotxt text. Each non-empty line is parsed as a separate todo.
-   * Throws an error if any todo fails to parse.
+   * Throws an error if any todo fails to parse, unless `parserOptions.recover` is set:
+   * then every line is kept and the problems are returned as diagnostics.
+   * Ids of the parsed todos are assigned according to the list's identity strategy,
+   * so todos for unchanged lines keep their ids when a file is read again.
    * @param {string} text - The todotxt formatted string to parse.
    * @param {ParserOptions} [parserOptions] - Optional configuration for the parser.
+   * @returns {ParseDiagnostic[]} Problems found while parsing (empty unless recovering).
    */
-  public parse(text: string, parserOptions?: ParserOptions): void;
+  public parse(text: string, parserOptions?: ParserOptions): ParseDiagnostic[];
 
   /**
    * Add multiple todo objects directly to the list.
-   * @param {Todo[]} todos - Array of Todo objects to add to the list.
+   * @param {Todo<V>[]} todos - Array of Todo objects to add to the list.
    */
-  public parse(todos: Todo[]): void;
+  public parse(todos: Todo<V>[]): void;
 
   /**
    * Implementation of parse that handles both overloads.
-   * @param {string|Todo[]} textOrTodos - Either a todotxt string or an array of Todo objects.
+   * @param {string|Todo<V>[]} textOrTodos - Either a todotxt string or an array of Todo objects.
    * @param {ParserOptions} [parserOptions] - Optional configuration for the parser.
+   * @returns {ParseDiagnostic[]|void} Problems found while parsing a string.
    */
   public parse(
-    textOrTodos: string | Todo[],
+    textOrTodos: string | Todo<V>[],
     parserOptions?: ParserOptions
-  ): void {
-    this.todos = [];
+  ): ParseDiagnostic[] | void {
+    if (typeof textOrTodos !== "string") {
+      // Array of Todo objects
+      this.source = undefined;
+      this.load([...textOrTodos], []);
+      return;
+    }
 
-    if (typeof textOrTodos === "string") {
-      const lines = textOrTodos
-        .split(/\r?\n/)
-        .filter((line) => line.trim() !== "");
-      const scanner = new Scanner();
-      for (const line of lines) {
-        const tokens = scanner.scan(line);
-        const parser = new Parser(tokens, parserOptions);
-        const todo = parser.parseTodo();
-        this.todos.push(todo);
+    const lines: (Todo<V> | undefined)[] = [];
+    const parsed: ParsedTodo<V>[] = [];
+    for (const entry of this.createReader(parserOptions).parse(textOrTodos)) {
+      while (lines.length < entry.line - 1) {
+        lines.push(undefined);
       }
-    } else {
-      // Array of Todo objects
-      this.todos = [...textOrTodos];
+      lines.push(entry.todo);
+      parsed.push(entry);
+    }
+    // Blank lines at the end still count as lines of the text
+    const lineCount = TodoList.countLines(textOrTodos, textOrTodos.length) + 1;
+    while (lines.length < lineCount) {
+      lines.push(undefined);
+    }
+
+    const diagnostics = this.identify(parsed, this.todos);
+    this.source = { text: textOrTodos, lines };
+    this.load(
+      parsed.map((entry) => entry.todo),
+      diagnostics
+    );
+    return this.getDiagnostics();
+  }
+
+  /**
+   * Parses a stream of todotxt text, e.g. a large done.txt file, without
+   * reading it into memory first. Apart from being asynchronous, this works
+   * like {@link TodoList.parse} with a string.
+   * @param {TodoTextStream} stream - A Node.js Readable, a ReadableStream or another async iterable of text chunks.
+   * @param {ParserOptions} [parserOptions] - Optional configuration for the parser.
+   * @returns {Promise<ParseDiagnostic[]>} Problems found while parsing (empty unless recovering).
+   */
+  public async parseStream(
+    stream: TodoTextStream,
+    parserOptions?: ParserOptions
+  ): Promise<ParseDiagnostic[]> {
+    const parsed: ParsedTodo<V>[] = [];
+    for await (const entry of this.createReader(parserOptions).read(stream)) {
+      parsed.push(entry);
     }
+
+    const diagnostics = this.identify(parsed, this.todos);
+    this.source = undefined;
+    this.load(
+      parsed.map((entry) => entry.todo),
+      diagnostics
+    );
+    return this.getDiagnostics();
+  }
+
+  /**
+   * Applies an edit of the text the list was last parsed from and re-parses
+   * only the changed lines. Todos of other lines are kept as they are, and the
+   * changes are announced as "removed" and "added" events in one notification.
+   * @param {TextEdit} edit - The edit, in offsets of the text before the edit.
+   * @param {ParserOptions} [parserOptions] - Optional configuration for the parser.
+   * @returns {ParseDiagnostic[]} The diagnostics of the whole text after the edit.
+   * @throws {Error} If the list was not parsed from a string, or its todos were
+   * added, removed or reordered since then.
+   */
+  public applyTextEdit(
+    edit: TextEdit,
+    parserOptions?: ParserOptions
+  ): ParseDiagnostic[] {
+    const source = this.source;
+    if (!source || !this.matchesSource(source)) {
+      throw new Error(
+        "The list does not match the text it was parsed from; parse the text again."
+      );
+    }
+    const { text } = source;
+    if (edit.from < 0 || edit.to < edit.from || edit.to > text.length) {
+      throw new Error(`Invalid edit range ${edit.from}-${edit.to}.`);
+    }
+
+    // The lines touched by the edit, before and after it
+    const first = TodoList.countLines(text, edit.from);
+    const last = TodoList.countLines(text, edit.to);
+    const newText = text.slice(0, edit.from) + edit.text + text.slice(edit.to);
+    const start = text.lastIndexOf("\n", edit.from - 1) + 1;
+    let end = newText.indexOf("\n", edit.from + edit.text.length);
+    if (end === -1) end = newText.length;
+    const newLines = newText.substring(start, end).split("\n");
+
+    // Todos of unchanged lines are kept, the other lines are parsed again
+    const reader = this.createReader(parserOptions);
+    const previous = source.lines
+      .slice(first, last + 1)
+      .filter((todo): todo is Todo<V> => !!todo);
+    const unchanged = new Map<string, Todo<V>[]>();
+    for (const todo of previous) {
+      if (todo.isModified()) continue;
+      const same = unchanged.get(todo.source!);
+      if (same) {
+        same.push(todo);
+      } else {
+        unchanged.set(todo.source!, [todo]);
+      }
+    }
+    const parsed: ParsedTodo<V>[] = [];
+    const lines = newLines.map((line, i) => {
+      const content = line.endsWith("\r") ? line.slice(0, -1) : line;
+      const kept = unchanged.get(content)?.shift();
+      if (kept) return kept;
+      const entry = reader.parseLine(content, first + i + 1);
+      if (entry) parsed.push(entry);
+      return entry?.todo;
+    });
+    const keptTodos = new Set(lines);
+    const removed = previous.filter((todo) => !keptTodos.has(todo));
+
+    const taken = this.takenIds();
+    for (const todo of removed) {
+      taken.delete(todo.id);
+    }
+    const diagnostics = this.identify(parsed, removed, taken);
+
+    // Diagnostics of kept todos and of the following lines move with them
+    const keptLines = new Map<number, number>();
+    lines.forEach((todo, i) => {
+      const line = todo ? source.lines.indexOf(todo, first) : -1;
+      if (line >= 0 && line <= last) keptLines.set(line + 1, first + i + 1);
+    });
+    const shift = newLines.length - (last - first + 1);
+    this.diagnostics = [
+      ...this.diagnostics.filter((d) => d.line <= first),
+      ...[
+        ...this.diagnostics
+          .filter((d) => keptLines.has(d.line))
+          .map((d) => ({ ...d, line: keptLines.get(d.line)! })),
+        ...diagnostics,
+      ].sort((a, b) => a.line - b.line),
+      ...this.diagnostics
+        .filter((d) => d.line > last + 1)
+        .map((d) => ({ ...d, line: d.line + shift })),
+    ];
+
+    const index = source.lines.slice(0, first).filter((todo) => todo).length;
+    source.text = newText;
+    source.lines = [
+      ...source.lines.slice(0, first),
+      ...lines,
+      ...source.lines.slice(last + 1),
+    ];
+
+    const added = new Set(parsed.map((entry) => entry.todo));
+    const region = lines.filter((todo): todo is Todo<V> => !!todo);
+    this.batch(() => {
+      if (removed.length > 0) {
+        const gone = new Set(removed);
+        const indexes: number[] = [];
+        this.todos = this.todos.filter((todo, i) => {
+          if (!gone.has(todo)) return true;
+          indexes.push(i);
+          return false;
+        });
+        for (const todo of removed) {
+          this.todoSubscriptions.get(todo)?.();
+          this.todoSubscriptions.delete(todo);
+          this.index.remove(todo);
+        }
+        this.emitter.emit({ type: "removed", todos: removed, indexes });
+      }
+
+      // Kept todos whose lines were swapped by the edit
+      const kept = region.filter((todo) => !added.has(todo));
+      this.applyOrder([
+        ...this.todos.slice(0, index),
+        ...kept,
+        ...this.todos.slice(index + kept.length),
+      ]);
+
+      // New todos, announced per run of adjacent lines
+      this.todos = [
+        ...this.todos.slice(0, index),
+        ...region,
+        ...this.todos.slice(index + kept.length),
+      ];
+      let i = 0;
+      while (i < region.length) {
+        const run: Todo<V>[] = [];
+        const at = index + i;
+        while (i < region.length && added.has(region[i])) {
+          run.push(region[i++]);
+        }
+        if (run.length === 0) {
+          i++;
+          continue;
+        }
+        run.forEach((todo, offset) => {
+          this.track(todo);
+          this.index.inserted(todo, at + offset);
+        });
+        this.emitter.emit({ type: "added", todos: run, index: at });
+      }
+    });
+
+    return this.getDiagnostics();
+  }
+
+  /**
+   * Registers a listener for one type of change event.
+   * Changes made directly on a todo in the list are reported as "updated" events.
+   * @param {string} type - The event type: "added", "removed", "updated", "reordered" or "reset".
+   * @param {function} listener - The listener to call.
+   * @returns {function} A function that removes the listener again.
+   */
+  public on<K extends keyof TodoListEventMap>(
+    type: K,
+    listener: (event: TodoListEventMap[K]) => void
+  ): () => void {
+    return this.emitter.on(type, listener);
+  }
+
+  /**
+   * Registers a subscriber that receives the events of each notification as an array.
+   * Outside {@link TodoList.batch} every notification holds a single event.
+   * @param {TodoListSubscriber} subscriber - The subscriber to call.
+   * @returns {function} A function that removes the subscriber again.
+   */
+  public subscribe(subscriber: TodoListSubscriber): () => void {
+    return this.emitter.subscribe(subscriber);
+  }
+
+  /**
+   * Runs a function and delivers all change events it causes as one notification.
+   * Several updates of the same todo are merged into one "updated" event.
+   * @param {function} fn - The function making the changes.
+   * @returns {T} The return value of the function.
+   */
+  public batch<T>(fn: () => T): T {
+    return this.emitter.batch(fn);
+  }
+
+  /**
+   * Returns the diagnostics collected by the last parse of a todotxt string.
+   * @returns {ParseDiagnostic[]} Array of diagnostics in line order.
+   */
+  public getDiagnostics(): ParseDiagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  /**
+   * Returns the options the list was created with, e.g. to create a list
+   * that parses and identifies todos the same way.
+   * @returns {TodoListOptions<V>} A copy of the list options.
+   */
+  public getOptions(): TodoListOptions<V> {
+    return { ...this.options };
   }
 
   /**
    * Returns all todos in the list.
-   * @returns {Todo[]} Array of all Todo objects.
+   * @returns {Todo<V>[]} Array of all Todo objects.
    */
-  public getTodos(): Todo[] {
+  public getTodos(): Todo<V>[] {
     return this.todos;
   }
 
@@ -84,7 +490,7 @@ export class TodoList {
    * @param {number} lineNumber - The line number (0-based index).
    * @returns {Todo|undefined} The todo at the specified position or undefined if out of bounds.
    */
-  public getTodoByLineNumber(lineNumber: number): Todo | undefined {
+  public getTodoByLineNumber(lineNumber: number): Todo<V> | undefined {
     if (lineNumber < 0 || lineNumber >= this.todos.length) {
       return undefined;
     }
@@ -96,20 +502,20 @@ export class TodoList {
    * @param {string} todoId - The unique identifier of the todo to retrieve.
    * @returns {Todo|undefined} The matching todo or undefined if not found.
    */
-  public getTodo(todoId: string): Todo | undefined {
-    return this.todos.find((todo) => todo.id === todoId);
+  public getTodo(todoId: string): Todo<V> | undefined {
+    return this.index.getById(todoId);
   }
 
   /**
    * Get todos that match a specific property value.
    * @param {keyof Todo} property - The property name to match.
    * @param {any} value - The value to match against.
-   * @returns {Todo[]} Array of todos matching the property value.
+   * @returns {Todo<V>[]} Array of todos matching the property value.
    */
-  public getTodosByProperty<T extends keyof Todo>(
+  public getTodosByProperty<T extends keyof Todo<V>>(
     property: T,
-    value: Todo[T]
-  ): Todo[] {
+    value: Todo<V>[T]
+  ): Todo<V>[] {
     return this.todos.filter((todo) => todo[property] === value);
   }
 
@@ -117,17 +523,10 @@ export class TodoList {
    * Get todos that match a specific key-value pair.
    * @param {string} key - The key name to match.
    * @param {any} value - The value to match against.
-   * @returns {Todo[]} Array of todos matching the key-value pair.
+   * @returns {Todo<V>[]} Array of todos matching the key-value pair.
    */
-  public getTodosByKeyValue(key: string, value: any): Todo[] {
-    return this.todos.filter((todo) => {
-      const todoValue = todo.keyValues[key];
-      if (Array.isArray(todoValue)) {
-        return todoValue.includes(value);
-      } else {
-        return todoValue === value;
-      }
-    });
+  public getTodosByKeyValue(key: string, value: any): Todo<V>[] {
+    return this.index.getByKeyValue(key, value);
   }
 
   /**
@@ -135,15 +534,7 @@ export class TodoList {
    * @returns {string[]} Array of unique project names.
    */
   public getProjects(): string[] {
-    const projects = new Set<string>();
-
-    for (const todo of this.todos) {
-      for (const project of todo.projects) {
-        projects.add(project);
-      }
-    }
-
-    return Array.from(projects).sort();
+    return this.index.getProjects();
   }
 
   /**
@@ -151,15 +542,7 @@ export class TodoList {
    * @returns {string[]} Array of unique context names.
    */
   public getContexts(): string[] {
-    const contexts = new Set<string>();
-
-    for (const todo of this.todos) {
-      for (const context of todo.contexts) {
-        contexts.add(context);
-      }
-    }
-
-    return Array.from(contexts).sort();
+    return this.index.getContexts();
   }
 
   /**
@@ -167,89 +550,104 @@ export class TodoList {
    * @returns {string[]} Array of unique key names.
    */
   public getKeyNames(): string[] {
-    const keys = new Set<string>();
-
-    for (const todo of this.todos) {
-      for (const key in todo.keyValues) {
-        keys.add(key);
-      }
-    }
-
-    return Array.from(keys).sort();
+    return this.index.getKeyNames();
   }
 
   /**
    * Get todos that include a specific context.
    * @param {string} context - The context to search for (without the @ symbol).
-   * @returns {Todo[]} Array of todos containing the specified context.
+   * @returns {Todo<V>[]} Array of todos containing the specified context.
    */
-  public getTodosByContext(context: string): Todo[] {
-    return this.todos.filter((todo) => todo.contexts.includes(context));
+  public getTodosByContext(context: string): Todo<V>[] {
+    return this.index.getByContext(context);
   }
 
   /**
    * Get todos that include a specific project.
    * @param {string} project - The project to search for (without the + symbol).
-   * @returns {Todo[]} Array of todos containing the specified project.
+   * @returns {Todo<V>[]} Array of todos containing the specified project.
    */
-  public getTodosByProject(project: string): Todo[] {
-    return this.todos.filter((todo) => todo.projects.includes(project));
+  public getTodosByProject(project: string): Todo<V>[] {
+    return this.index.getByProject(project);
   }
 
   /**
    * Get todos that are marked as completed.
-   * @returns {Todo[]} Array of completed todos.
+   * @returns {Todo<V>[]} Array of completed todos.
    */
-  public getCompletedTodos(): Todo[] {
+  public getCompletedTodos(): Todo<V>[] {
     return this.todos.filter((todo) => todo.completed);
   }
 
   /**
    * Get todos that are not marked as completed.
-   * @returns {Todo[]} Array of incomplete todos.
+   * @returns {Todo<V>[]} Array of incomplete todos.
    */
-  public getIncompleteTodos(): Todo[] {
+  public getIncompleteTodos(): Todo<V>[] {
     return this.todos.filter((todo) => !todo.completed);
   }
 
   /**
    * Get todos that are due today.
-   * @returns {Todo[]} Array of todos due today.
+   * @returns {Todo<V>[]} Array of todos due today.
    */
-  public getDueTodayTodos(): Todo[] {
-    const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
-    return this.todos.filter((todo) => {
-      const dueDate = todo.keyValues["due"];
-      return dueDate && dueDate === today;
-    });
+  public getDueTodayTodos(): Todo<V>[] {
+    const today = this.getToday();
+    return this.index.getDueBetween(today, today);
   }
 
   /**
    * Get todos that are past their due date and not completed.
-   * @returns {Todo[]} Array of overdue todos.
+   * @returns {Todo<V>[]} Array of overdue todos.
    */
-  public getOverdueTodos(): Todo[] {
-    const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
-    return this.todos.filter((todo) => {
-      const dueDate = todo.keyValues["due"];
-      return dueDate && dueDate < today && !todo.completed;
-    });
+  public getOverdueTodos(): Todo<V>[] {
+    return this.index
+      .getDueBefore(this.getToday())
+      .filter((todo) => !todo.completed);
   }
 
   /**
    * Get todos that are due within a specified number of days from today.
    * @param {number} n - Number of days from today.
-   * @returns {Todo[]} Array of todos due within the specified time period.
+   * @returns {Todo<V>[]} Array of todos due within the specified time period.
+   */
+  public getDueInNextNDaysTodos(n: number): Todo<V>[] {
+    const futureDateString = CalendarDate.add(this.getToday(), n);
+
+    return this.index
+      .getDueBetween(undefined, futureDateString)
+      .filter((todo) => !todo.completed);
+  }
+
+  /**
+   * Get todos due within a range of dates, completed or not.
+   * @param {string} start - The first date in YYYY-MM-DD format, inclusive.
+   * @param {string} end - The last date in YYYY-MM-DD format, inclusive.
+   * @returns {Todo<V>[]} Array of todos due within the range, in list order.
+   */
+  public getTodosDueBetween(start: string, end: string): Todo<V>[] {
+    return this.index.getDueBetween(start, end);
+  }
+
+  /**
+   * Get todos that can be worked on: open todos whose threshold date (`t:`)
+   * is reached or not set.
+   * @param {string} [today] - Today's date in YYYY-MM-DD format. Defaults to the current date.
+   * @returns {Todo<V>[]} Array of actionable todos.
    */
-  public getDueInNextNDaysTodos(n: number): Todo[] {
-    const today = new Date();
-    const futureDate = new Date(today);
-    futureDate.setDate(today.getDate() + n);
-    const futureDateString = futureDate.toISOString().split("T")[0]; // YYYY-MM-DD
+  public getActionableTodos(today: string = this.getToday()): Todo<V>[] {
+    return this.todos.filter((todo) => todo.isActionable(today));
+  }
 
+  /**
+   * Get open todos that are hidden until a future threshold date (`t:`).
+   * @param {string} [today] - Today's date in YYYY-MM-DD format. Defaults to the current date.
+   * @returns {Todo<V>[]} Array of todos with a threshold date after today.
+   */
+  public getFutureTodos(today: string = this.getToday()): Todo<V>[] {
     return this.todos.filter((todo) => {
-      const dueDate = todo.keyValues["due"];
-      return dueDate && dueDate <= futureDateString && !todo.completed;
+      const threshold = todo.getThresholdDate();
+      return !todo.completed && !!threshold && threshold > today;
     });
   }
 
@@ -264,7 +662,7 @@ export class TodoList {
    * Add a todo object directly to the list.
    * @param {Todo} todo - The Todo object to add.
    */
-  public addTodo(todo: Todo): void;
+  public addTodo(todo: Todo<V>): void;
 
   /**
    * Implementation of addTodo that handles both overloads.
@@ -272,36 +670,54 @@ export class TodoList {
    * @param {ParserOptions} [parserOptions] - Optional configuration for the parser.
    */
   public addTodo(
-    todoOrLine: string | Todo,
+    todoOrLine: string | Todo<V>,
     parserOptions?: ParserOptions
   ): void {
     if (typeof todoOrLine === "string") {
       // String input - parse it
-      const scanner = new Scanner();
+      const scanner = new Scanner(this.options.scanner);
       const tokens = scanner.scan(todoOrLine);
-      const parser = new Parser(tokens, parserOptions);
-      const todo = parser.parseTodo();
-      this.todos.push(todo);
+      const parser = new Parser(tokens, {
+        clock: this.options.clock,
+        schema: this.options.schema,
+        keyPattern: this.options.scanner?.keyPattern,
+        ...parserOptions,
+      });
+      const todo = parser.parseTodo() as Todo<V>;
+      this.assignIds([todo], [], this.takenIds());
+      this.insert(todo);
     } else {
-      // Todo object input - add directly
-      this.todos.push(todoOrLine);
+      // Todo object input - add directly, keeping its id unless it is persisted
+      if (this.options.identity === "key") {
+        this.assignIds([todoOrLine], [], this.takenIds());
+      }
+      this.insert(todoOrLine);
     }
   }
 
+  /**
+   * Insert a todo object at a specific position in the list.
+   * @param {Todo} todo - The Todo object to insert.
+   * @param {number} index - The position (0-based) to insert at; clamped to the list bounds.
+   */
+  public insertTodo(todo: Todo<V>, index: number): void {
+    this.insert(todo, Math.max(0, Math.min(index, this.todos.length)));
+  }
+
   /**
    * Edit a todo by id using an updater function.
    * @param {string} todoId - The unique identifier of the todo to edit.
    * @param {function} updater - Function that modifies the todo object.
    * @throws {Error} If the todo with the specified ID is not found.
    */
-  public editTodo(todoId: string, updater: (todo: Todo) => void): void;
+  public editTodo(todoId: string, updater: (todo: Todo<V>) => void): void;
 
   /**
    * Edit a todo by providing a todo object with the same ID.
    * @param {Todo} updatedTodo - The modified Todo object with the same ID as the todo to replace.
    * @throws {Error} If the todo with the specified ID is not found.
    */
-  public editTodo(updatedTodo: Todo): void;
+  public editTodo(updatedTodo: Todo<V>): void;
 
   /**
    * Implementation of editTodo that handles both overloads.
@@ -310,20 +726,33 @@ export class TodoList {
    * @throws {Error} If the todo with the specified ID is not found.
    */
   public editTodo(
-    todoIdOrTodo: string | Todo,
-    updater?: (todo: Todo) => void
+    todoIdOrTodo: string | Todo<V>,
+    updater?: (todo: Todo<V>) => void
   ): void {
     if (typeof todoIdOrTodo === "string") {
       // String todoId input
-      const todo = this.todos.find((t) => t.id === todoIdOrTodo);
+      const todo = this.getTodo(todoIdOrTodo);
       if (!todo) throw new Error(`Todo with id ${todoIdOrTodo} not found.`);
-      updater!(todo);
+      this.batch(() => updater!(todo));
     } else {
       // Todo object input
       const index = this.todos.findIndex((t) => t.id === todoIdOrTodo.id);
       if (index === -1)
         throw new Error(`Todo with id ${todoIdOrTodo.id} not found.`);
+      const previous = this.todos[index];
+      if (previous === todoIdOrTodo) return;
       this.todos[index] = todoIdOrTodo;
+      this.untrack(previous);
+      this.track(todoIdOrTodo);
+      this.index.inserted(todoIdOrTodo, index);
+      this.batch(() => {
+        this.emitter.emit({
+          type: "removed",
+          todos: [previous],
+          indexes: [index],
+        });
+        this.emitter.emit({ type: "added", todos: [todoIdOrTodo], index });
+      });
     }
   }
 
@@ -337,58 +766,188 @@ export class TodoList {
    * Delete a todo by object reference.
    * @param {Todo} todo - The Todo object to delete.
    */
-  public deleteTodo(todo: Todo): void;
+  public deleteTodo(todo: Todo<V>): void;
 
   /**
    * Implementation of deleteTodo that handles both overloads.
    * @param {string|Todo} todoIdOrTodo - Either a todo ID or a Todo object.
    */
-  public deleteTodo(todoIdOrTodo: string | Todo): void {
-    if (typeof todoIdOrTodo === "string") {
-      // String todoId input
-      this.todos = this.todos.filter((t) => t.id !== todoIdOrTodo);
-    } else {
-      // Todo object input
-      this.todos = this.todos.filter((t) => t.id !== todoIdOrTodo.id);
+  public deleteTodo(todoIdOrTodo: string | Todo<V>): void {
+    const todoId =
+      typeof todoIdOrTodo === "string" ? todoIdOrTodo : todoIdOrTodo.id;
+    const removed: Todo<V>[] = [];
+    const indexes: number[] = [];
+    this.todos.forEach((todo, index) => {
+      if (todo.id === todoId) {
+        removed.push(todo);
+        indexes.push(index);
+      }
+    });
+    if (removed.length === 0) return;
+
+    this.todos = this.todos.filter((t) => t.id !== todoId);
+    for (const todo of removed) {
+      this.untrack(todo);
     }
+    this.emitter.emit({ type: "removed", todos: removed, indexes });
+  }
+
+  /**
+   * Complete a todo by id.
+   * @param {string} todoId - The unique identifier of the todo to complete.
+   * @param {CompleteOptions} [options] - Optional completion settings.
+   * @returns {CompleteResult} The completed todo and its next occurrence.
+   * @throws {Error} If the todo with the specified ID is not found.
+   */
+  public complete(todoId: string, options?: CompleteOptions): CompleteResult<V>;
+
+  /**
+   * Complete a todo by object reference.
+   * @param {Todo} todo - The Todo object to complete.
+   * @param {CompleteOptions} [options] - Optional completion settings.
+   * @returns {CompleteResult} The completed todo and its next occurrence.
+   * @throws {Error} If the todo is not in the list.
+   */
+  public complete(todo: Todo<V>, options?: CompleteOptions): CompleteResult<V>;
+
+  /**
+   * Implementation of complete that handles both overloads.
+   * Marks the todo as completed and, if it has a `rec:` pattern, inserts its next
+   * occurrence right after it. Completing an already completed todo does not
+   * spawn another occurrence; an open todo with the same content, apart from
+   * its id pair under the "key" strategy, is returned as the next occurrence
+   * instead of adding a duplicate.
+   * @param {string|Todo} todoIdOrTodo - Either a todo ID or a Todo object.
+   * @param {CompleteOptions} [options] - Optional completion settings.
+   * @returns {CompleteResult} The completed todo and its next occurrence.
+   * @throws {Error} If the todo is not in the list.
+   */
+  public complete(
+    todoIdOrTodo: string | Todo<V>,
+    options: CompleteOptions = {}
+  ): CompleteResult<V> {
+    const todoId =
+      typeof todoIdOrTodo === "string" ? todoIdOrTodo : todoIdOrTodo.id;
+    const todo = this.getTodo(todoId);
+    if (!todo) throw new Error(`Todo with id ${todoId} not found.`);
+
+    const wasCompleted = todo.completed;
+    const priority = todo.priority;
+    return this.batch(() => {
+      if (!wasCompleted) {
+        todo.markCompleted(
+          options.date ?? this.getToday(),
+          this.options.completedPriority
+        );
+      }
+
+      let next = todo.generateRecurringTodo();
+      if (next) {
+        // The next occurrence is open again, with the priority the todo had
+        if (priority && !next.priority) {
+          next.setPriority(priority);
+        }
+        if (options.setCreationDate) {
+          next.creationDate = this.getToday();
+        }
+        const existing = this.findOccurrence(next, todo);
+        if (existing || wasCompleted) {
+          next = existing;
+        } else {
+          this.assignIds([next], [], this.takenIds());
+          this.insert(next, this.todos.indexOf(todo) + 1);
+        }
+      }
+
+      if (options.archive && options.archive !== this) {
+        this.deleteTodo(todo);
+        options.archive.addTodo(todo);
+      }
+
+      return { completed: todo, next };
+    });
   }
 
   /**
    * Convert the todo list back to a string representation.
    * This generates a complete todotxt output with one todo per line.
+   * With `lossless: true`, todos parsed from text keep their original layout.
+   * @param {TodoSerializeOptions} [options] - Optional serialization settings.
    * @returns {string} The string representation of all todos.
    */
-  public toString(): string {
+  public toString(options?: TodoSerializeOptions): string {
     return this.todos
       .map((todo) => {
-        return todo.toString();
+        return todo.toString(options);
       })
       .join("\n");
   }
 
   /**
-   * Sort todos by a given criteria.
-   * @param {string} criteria - The criteria to sort by: "priority", "due", "creation", or "completion".
+   * Sort todos by one or more sort keys, in place.
+   * Keys are applied in order; later keys break ties of earlier ones, and
+   * todos that compare equal on every key keep their relative order.
+   * @param {SortField|SortKey|Array<SortField|SortKey>} criteria - The sort key(s).
    */
-  public sortBy(
-    criteria: "priority" | "due" | "creation" | "completion"
-  ): void {
-    this.todos.sort((a, b) => {
-      if (criteria === "priority") {
-        return (a.priority || "").localeCompare(b.priority || "");
-      } else if (criteria === "due") {
-        return (a.keyValues["due"] || "").localeCompare(
-          b.keyValues["due"] || ""
-        );
-      } else if (criteria === "creation") {
-        return (a.creationDate || "").localeCompare(b.creationDate || "");
-      } else if (criteria === "completion") {
-        return (a.completionDate || "").localeCompare(b.completionDate || "");
+  public sortBy(criteria: SortCriteria): void {
+    this.applyOrder(this.sorted(criteria));
+  }
+
+  /**
+   * Puts the todos of the list in the given order.
+   * @param {Todo<V>[]} order - The todos of the list in their new order.
+   * @throws {Error} If the given todos are not exactly the todos of the list.
+   */
+  public reorder(order: Todo<V>[]): void {
+    const remaining = new Set(this.todos);
+    for (const todo of order) {
+      if (!remaining.delete(todo)) {
+        throw new Error("Reorder must contain exactly the todos of the list.");
       }
-      return 0;
-    });
+    }
+    if (remaining.size > 0) {
+      throw new Error("Reorder must contain exactly the todos of the list.");
+    }
+    this.applyOrder(order);
+  }
+
+  /**
+   * Returns the todos sorted by one or more sort keys without changing the list.
+   * @param {SortField|SortKey|Array<SortField|SortKey>} criteria - The sort key(s).
+   * @returns {Todo<V>[]} A new array with the todos in sorted order.
+   */
+  public sorted(criteria: SortCriteria): Todo<V>[] {
+    const keys = (Array.isArray(criteria) ? criteria : [criteria]).map(
+      (key): Required<SortKey> => ({
+        direction: "asc",
+        missing: "last",
+        ...(typeof key === "string" ? { field: key } : key),
+      })
+    );
+
+    // Decorate with the original index so equal todos keep their order
+    return this.todos
+      .map((todo, index) => ({ todo, index }))
+      .sort((a, b) => {
+        for (const key of keys) {
+          const order = this.compareBySortKey(a.todo, b.todo, key);
+          if (order !== 0) return order;
+        }
+        return a.index - b.index;
+      })
+      .map((entry) => entry.todo);
   }
 
+  /**
+   * Filter todos with a query string or a compiled query,
+   * e.g. `+work -@phone due:<today+3 "invoice" OR @home`. See {@link Query}.
+   * @param {string|Query} query - The query to match todos against.
+   * @param {QueryOptions} [options] - Optional configuration when a query string is given.
+   * @returns {Todo<V>[]} Array of todos matching the query.
+   * @throws {QuerySyntaxError} If the query string is malformed.
+   */
+  public filter(query: string | Query, options?: QueryOptions): Todo<V>[];
+
   /**
    * Filter todos based on multiple criteria.
    * @param {Object} criteria - An object containing filter criteria.
@@ -398,7 +957,8 @@ export class TodoList {
    * @param {string[]} [criteria.contexts] - Filter by context names.
    * @param {string} [criteria.dueAfter] - Include todos due after this date (YYYY-MM-DD).
    * @param {string} [criteria.dueBefore] - Include todos due before this date (YYYY-MM-DD).
-   * @returns {Todo[]} Array of todos matching all specified criteria.
+   * @param {boolean} [criteria.actionable] - Whether to include only todos that are (or are not) actionable today.
+   * @returns {Todo<V>[]} Array of todos matching all specified criteria.
    */
   public filter(criteria: {
     completed?: boolean;
@@ -407,7 +967,41 @@ export class TodoList {
     contexts?: string[];
     dueAfter?: string;
     dueBefore?: string;
-  }): Todo[] {
+    actionable?: boolean;
+  }): Todo<V>[];
+
+  /**
+   * Implementation of filter that handles both overloads.
+   * @param {string|Query|Object} criteria - A query or an object containing filter criteria.
+   * @param {QueryOptions} [options] - Optional configuration when a query string is given.
+   * @returns {Todo<V>[]} Array of todos matching the criteria.
+   */
+  public filter(
+    criteria:
+      | string
+      | Query
+      | {
+          completed?: boolean;
+          priority?: string;
+          projects?: string[];
+          contexts?: string[];
+          dueAfter?: string;
+          dueBefore?: string;
+          actionable?: boolean;
+        },
+    options?: QueryOptions
+  ): Todo<V>[] {
+    if (typeof criteria === "string") {
+      return new Query(criteria, {
+        clock: this.options.clock,
+        keyPattern: this.options.scanner?.keyPattern,
+        ...options,
+      }).filter(this.todos);
+    } else if (criteria instanceof Query) {
+      return criteria.filter(this.todos);
+    }
+
+    const today = this.getToday();
     return this.todos.filter((todo) => {
       if (
         criteria.completed !== undefined &&
@@ -416,6 +1010,11 @@ export class TodoList {
         return false;
       if (criteria.priority && todo.priority !== criteria.priority)
         return false;
+      if (
+        criteria.actionable !== undefined &&
+        todo.isActionable(today) !== criteria.actionable
+      )
+        return false;
 
       if (criteria.projects && criteria.projects.length > 0) {
         if (
@@ -446,4 +1045,379 @@ export class TodoList {
       return true;
     });
   }
+
+  /**
+   * Gets today's date from the list's clock, or the global clock if none is set.
+   * @returns {string} Today's date in YYYY-MM-DD format.
+   * @private
+   */
+  private getToday(): string {
+    return (this.options.clock ?? Clock.getDefault()).today();
+  }
+
+  /**
+   * Compares two todos by a single sort key.
+   * @param {Todo} a - First todo.
+   * @param {Todo} b - Second todo.
+   * @param {Required<SortKey>} key - The sort key.
+   * @returns {number} Negative if a sorts first, positive if b sorts first, zero if equal.
+   * @private
+   */
+  private compareBySortKey(
+    a: Todo<V>,
+    b: Todo<V>,
+    key: Required<SortKey>
+  ): number {
+    const valueA = this.getSortValue(a, key.field);
+    const valueB = this.getSortValue(b, key.field);
+
+    // Missing values go first or last regardless of the direction
+    if (valueA === undefined || valueB === undefined) {
+      if (valueA === valueB) return 0;
+      const missingFirst = key.missing === "first" ? -1 : 1;
+      return valueA === undefined ? missingFirst : -missingFirst;
+    }
+
+    let order: number;
+    if (typeof valueA === "number" && typeof valueB === "number") {
+      order = valueA - valueB;
+    } else {
+      order = String(valueA).localeCompare(String(valueB));
+    }
+    return key.direction === "desc" ? -order : order;
+  }
+
+  /**
+   * Extracts the value a todo is sorted by.
+   * @param {Todo} todo - The todo.
+   * @param {SortField} field - The field to sort by.
+   * @returns {string|number|undefined} The sort value, or undefined if missing.
+   * @private
+   */
+  private getSortValue(
+    todo: Todo<V>,
+    field: SortField
+  ): string | number | undefined {
+    switch (field) {
+      case "priority":
+        return todo.priority;
+      case "due":
+        return this.toSortValue(todo.keyValues["due"]);
+      case "creation":
+        return todo.creationDate;
+      case "completion":
+        return todo.completionDate;
+      case "description":
+        return todo.description.toLowerCase();
+      case "project":
+        return [...todo.projects].sort()[0];
+      case "context":
+        return [...todo.contexts].sort()[0];
+      case "completed":
+        return todo.completed ? 1 : 0;
+      case "threshold":
+        return todo.getThresholdDate();
+      default:
+        return this.toSortValue(todo.keyValues[field.substring(4)]);
+    }
+  }
+
+  /**
+   * Converts a key-value value into a comparable sort value.
+   * Numeric strings become numbers and dates become YYYY-MM-DD strings.
+   * @param {any} value - The key-value value.
+   * @returns {string|number|undefined} The sort value, or undefined if missing.
+   * @private
+   */
+  private toSortValue(value: any): string | number | undefined {
+    if (Array.isArray(value)) value = value[0];
+    if (value === undefined || value === null || value === "") {
+      return undefined;
+    }
+    if (value instanceof Date) {
+      return value.toISOString().split("T")[0];
+    }
+    if (typeof value === "number") {
+      return value;
+    }
+    const text = String(value);
+    return text.trim() !== "" && !isNaN(Number(text)) ? Number(text) : text;
+  }
+
+  /**
+   * Creates a reader that parses lines with the list's options.
+   * @param {ParserOptions} [parserOptions] - Optional configuration for the parser.
+   * @returns {TodoReader} The reader.
+   * @private
+   */
+  private createReader(parserOptions?: ParserOptions): TodoReader<V> {
+    return new TodoReader<V>({
+      parserOptions,
+      scanner: this.options.scanner,
+      schema: this.options.schema,
+      clock: this.options.clock,
+    });
+  }
+
+  /**
+   * Assigns ids to parsed todos and returns their diagnostics with the final ids.
+   * @param {ParsedTodo<V>[]} parsed - The parsed todos.
+   * @param {Todo<V>[]} previous - The todos they replace, for the "match" strategy.
+   * @param {Set<string>} [taken] - Ids already in use by other todos.
+   * @returns {ParseDiagnostic[]} The diagnostics of the parsed todos, in line order.
+   * @private
+   */
+  private identify(
+    parsed: ParsedTodo<V>[],
+    previous: Todo<V>[],
+    taken: Set<string> = new Set()
+  ): ParseDiagnostic[] {
+    this.assignIds(
+      parsed.map((entry) => entry.todo),
+      previous,
+      taken
+    );
+    return parsed.flatMap(({ todo, diagnostics }) =>
+      diagnostics.map((diagnostic) => ({ ...diagnostic, todoId: todo.id }))
+    );
+  }
+
+  /**
+   * Replaces all todos of the list and announces a "reset".
+   * @param {Todo<V>[]} todos - The new todos.
+   * @param {ParseDiagnostic[]} diagnostics - The diagnostics of the new todos.
+   * @private
+   */
+  private load(todos: Todo<V>[], diagnostics: ParseDiagnostic[]): void {
+    const previous = this.todos;
+    this.todos = todos;
+    this.diagnostics = diagnostics;
+    this.index.reset(todos);
+    for (const todo of previous) {
+      this.untrack(todo);
+    }
+    for (const todo of todos) {
+      this.track(todo);
+    }
+    this.emitter.emit({ type: "reset", todos: [...todos], previous });
+  }
+
+  /**
+   * Checks that the todos of the list are still those of the parsed text, in order.
+   * @param {ParsedSource<V>} source - The parsed text.
+   * @returns {boolean} True if no todo was added, removed or moved since.
+   * @private
+   */
+  private matchesSource(source: ParsedSource<V>): boolean {
+    let i = 0;
+    for (const todo of source.lines) {
+      if (todo && todo !== this.todos[i++]) return false;
+    }
+    return i === this.todos.length;
+  }
+
+  /**
+   * Counts the line separators before an offset, i.e. the 0-based line of the offset.
+   * @param {string} text - The text.
+   * @param {number} offset - The offset.
+   * @returns {number} The index of the line containing the offset.
+   * @private
+   */
+  private static countLines(text: string, offset: number): number {
+    let count = 0;
+    let i = text.indexOf("\n");
+    while (i !== -1 && i < offset) {
+      count++;
+      i = text.indexOf("\n", i + 1);
+    }
+    return count;
+  }
+
+  /**
+   * Rewrites the todo array in the given order and announces the change.
+   * @param {Todo<V>[]} order - The todos in their new order.
+   * @private
+   */
+  private applyOrder(order: Todo<V>[]): void {
+    const previous = [...this.todos];
+    let changed = false;
+    for (let i = 0; i < order.length; i++) {
+      changed = changed || this.todos[i] !== order[i];
+      this.todos[i] = order[i];
+    }
+    if (changed) {
+      this.index.moved();
+      this.emitter.emit({ type: "reordered", previous, order: [...order] });
+    }
+  }
+
+  /**
+   * Inserts a todo into the list and announces it.
+   * @param {Todo} todo - The todo to insert.
+   * @param {number} [index] - The position to insert at. Defaults to the end of the list.
+   * @private
+   */
+  private insert(todo: Todo<V>, index: number = this.todos.length): void {
+    this.todos.splice(index, 0, todo);
+    this.track(todo);
+    this.index.inserted(todo, index);
+    this.emitter.emit({ type: "added", todos: [todo], index });
+  }
+
+  /**
+   * Starts forwarding the changes of a todo as "updated" events.
+   * @param {Todo} todo - The todo to watch.
+   * @private
+   */
+  private track(todo: Todo<V>): void {
+    this.index.add(todo);
+    if (this.todoSubscriptions.has(todo)) return;
+    const unsubscribe = todo.onChange((changed, change) => {
+      this.index.update(todo);
+      this.emitter.emit({
+        type: "updated",
+        todo: changed,
+        fields: change.fields,
+        previous: change.previous,
+      });
+    });
+    this.todoSubscriptions.set(todo, unsubscribe);
+  }
+
+  /**
+   * Stops forwarding the changes of a todo, unless it is still in the list.
+   * @param {Todo} todo - The todo to stop watching.
+   * @private
+   */
+  private untrack(todo: Todo<V>): void {
+    if (this.todos.includes(todo)) return;
+    this.todoSubscriptions.get(todo)?.();
+    this.todoSubscriptions.delete(todo);
+    this.index.remove(todo);
+  }
+
+  /**
+   * Assigns ids to newly parsed or added todos according to the identity strategy.
+   * @param {Todo<V>[]} todos - The todos to assign ids to.
+   * @param {Todo<V>[]} previous - The todos the list held before, for the "match" strategy.
+   * @param {Set<string>} taken - Ids already in use; assigned ids are added to it.
+   * @private
+   */
+  private assignIds(
+    todos: Todo<V>[],
+    previous: Todo<V>[],
+    taken: Set<string>
+  ): void {
+    switch (this.options.identity) {
+      case "match":
+        this.matchIds(todos, previous);
+        break;
+      case "key": {
+        const key = this.options.idKey;
+        for (const todo of todos) {
+          const value = todo.keyValues[key];
+          let id = value === undefined ? "" : String(value);
+          if (id === "" || taken.has(id)) {
+            id = Todo.generateId();
+            todo.setKeyValue(key, id);
+          }
+          todo.assignId(id);
+          taken.add(id);
+        }
+        break;
+      }
+      case "hash":
+        for (const todo of todos) {
+          const hash = this.hashText(todo.toString());
+          let id = hash;
+          for (let n = 2; taken.has(id); n++) {
+            id = `${hash}-${n}`;
+          }
+          todo.assignId(id);
+          taken.add(id);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Gives parsed todos the ids of the previous todos they correspond to.
+   * @param {Todo<V>[]} todos - The parsed todos.
+   * @param {Todo<V>[]} previous - The todos the list held before.
+   * @private
+   */
+  private matchIds(todos: Todo<V>[], previous: Todo<V>[]): void {
+    for (const [todo, match] of new TodoMatcher().match(previous, todos)) {
+      todo.assignId(match.id);
+    }
+  }
+
+  /**
+   * Hashes a text into a short hexadecimal id (53-bit cyrb53 hash).
+   * @param {string} text - The text to hash.
+   * @returns {string} The hash as a hexadecimal string.
+   * @private
+   */
+  private hashText(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text.charCodeAt(i);
+      h1 = Math.imul(h1 ^ ch, 2654435761);
+      h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+    return hash.toString(16).padStart(14, "0");
+  }
+
+  /**
+   * Finds an open todo with the same content as a next occurrence.
+   * @param {Todo<V>} next - The next occurrence.
+   * @param {Todo<V>} completed - The completed todo it was generated from.
+   * @returns {Todo<V>|undefined} The open todo, or undefined if there is none.
+   * @private
+   */
+  private findOccurrence(
+    next: Todo<V>,
+    completed: Todo<V>
+  ): Todo<V> | undefined {
+    const content = this.contentOf(next);
+    return this.todos.find(
+      (todo) =>
+        !todo.completed &&
+        todo !== completed &&
+        todo.description === next.description &&
+        this.contentOf(todo) === content
+    );
+  }
+
+  /**
+   * Returns the text of a todo without its identity. Under the "key" strategy
+   * every occurrence of a recurring todo has its own id pair, which is left out.
+   * @param {Todo<V>} todo - The todo.
+   * @returns {string} The text of the todo.
+   * @private
+   */
+  private contentOf(todo: Todo<V>): string {
+    const key = this.options.idKey;
+    if (this.options.identity !== "key" || !(key in todo.keyValues)) {
+      return todo.toString();
+    }
+    const copy = todo.clone();
+    copy.removeKeyValue(key);
+    return copy.toString();
+  }
+
+  /**
+   * Returns the ids of the todos in the list.
+   * @returns {Set<string>} The ids in use.
+   * @private
+   */
+  private takenIds(): Set<string> {
+    return new Set(this.todos.map((todo) => todo.id));
+  }
 }
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Defines the change events of a TodoList and the emitter that delivers them.
+ * Events can be batched so that several changes reach subscribers as one notification.
+ * @module TodoListEvents
+ */
+
+import { Todo, TodoField } from "./Todo";
+
+/**
+ * Map of event names to the events a TodoList emits.
+ */
+export interface TodoListEventMap {
+  /** Todos were added to the list, starting at `index` */
+  added: { type: "added"; todos: Todo[]; index: number };
+
+  /** Todos were removed from the list; `indexes` are their positions before removal */
+  removed: { type: "removed"; todos: Todo[]; indexes: number[] };
+
+  /** A todo in the list changed; `previous` holds the old values of `fields` */
+  updated: {
+    type: "updated";
+    todo: Todo;
+    fields: TodoField[];
+    previous: Partial<Record<TodoField, any>>;
+  };
+
+  /** The order of the todos changed from `previous` to `order` */
+  reordered: { type: "reordered"; previous: Todo[]; order: Todo[] };
+
+  /** The whole list was replaced, e.g. by parse */
+  reset: { type: "reset"; todos: Todo[]; previous: Todo[] };
+}
+
+/**
+ * Any event emitted by a TodoList.
+ */
+export type TodoListEvent = TodoListEventMap[keyof TodoListEventMap];
+
+/**
+ * Function called with all events of one notification.
+ */
+export type TodoListSubscriber = (events: TodoListEvent[]) => void;
+
+/**
+ * The listeners of each event type.
+ * @private
+ */
+type TodoListListeners = {
+  [K in keyof TodoListEventMap]: Set<(event: TodoListEventMap[K]) => void>;
+};
+
+/**
+ * Delivers TodoList events to typed listeners and subscribers.
+ * Outside a batch every event is delivered immediately; inside a batch the
+ * events are queued and delivered together when the outermost batch ends.
+ */
+export class TodoListEmitter {
+  /** Listeners per event type */
+  private listeners: TodoListListeners = {
+    added: new Set(),
+    removed: new Set(),
+    updated: new Set(),
+    reordered: new Set(),
+    reset: new Set(),
+  };
+
+  /** Subscribers receiving every notification */
+  private subscribers: Set<TodoListSubscriber> = new Set();
+
+  /** Events queued during a batch */
+  private queue: TodoListEvent[] = [];
+
+  /** Nesting depth of batch calls */
+  private batchDepth: number = 0;
+
+  /**
+   * Registers a listener for one event type.
+   * @param {string} type - The event type.
+   * @param {function} listener - The listener to call.
+   * @returns {function} A function that removes the listener again.
+   */
+  public on<K extends keyof TodoListEventMap>(
+    type: K,
+    listener: (event: TodoListEventMap[K]) => void
+  ): () => void {
+    const set: TodoListListeners[K] = this.listeners[type];
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /**
+   * Registers a subscriber that receives all events of each notification.
+   * @param {TodoListSubscriber} subscriber - The subscriber to call.
+   * @returns {function} A function that removes the subscriber again.
+   */
+  public subscribe(subscriber: TodoListSubscriber): () => void {
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Emits an event, or queues it while a batch is running.
+   * @param {TodoListEvent} event - The event to emit.
+   */
+  public emit(event: TodoListEvent): void {
+    this.queue.push(event);
+    if (this.batchDepth === 0) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Runs a function and delivers the events it causes as one notification.
+   * Batches can be nested; events are delivered when the outermost one ends.
+   * @param {function} fn - The function to run.
+   * @returns {T} The return value of the function.
+   */
+  public batch<T>(fn: () => T): T {
+    this.batchDepth++;
+    try {
+      return fn();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        this.flush();
+      }
+    }
+  }
+
+  /**
+   * Delivers the queued events.
+   * Several updates of the same todo are merged into one event.
+   * @private
+   */
+  private flush(): void {
+    if (this.queue.length === 0) return;
+
+    const events: TodoListEvent[] = [];
+    const updates = new Map<Todo, TodoListEventMap["updated"]>();
+    for (const event of this.queue) {
+      if (event.type === "updated") {
+        const existing = updates.get(event.todo);
+        if (existing) {
+          for (const field of event.fields) {
+            if (!existing.fields.includes(field)) {
+              existing.fields.push(field);
+              existing.previous[field] = event.previous[field];
+            }
+          }
+          continue;
+        }
+        const copy = {
+          ...event,
+          fields: [...event.fields],
+          previous: { ...event.previous },
+        };
+        updates.set(event.todo, copy);
+        events.push(copy);
+      } else {
+        events.push(event);
+      }
+    }
+    this.queue = [];
+
+    for (const event of events) {
+      const set = this.listeners[event.type] as Set<
+        (event: TodoListEvent) => void
+      >;
+      for (const listener of [...set]) {
+        listener(event);
+      }
+    }
+    for (const subscriber of [...this.subscribers]) {
+      subscriber(events);
+    }
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Provides the TodoMatcher class for pairing the todos of two versions of a list.
+ * Matching is used to keep ids stable when a file is parsed again and to find
+ * the corresponding todos when merging versions of a file.
+ * @module TodoMatcher
+ */
+
+import { Todo } from "./Todo";
+
+/**
+ * Configuration options for a TodoMatcher.
+ */
+export interface TodoMatcherOptions {
+  /** Key-value pair that identifies a todo, e.g. "id". Todos with equal values are paired first. */
+  key?: string;
+
+  /**
+   * Minimum share of common description words (0 to 1) for pairing todos whose
+   * text differs. Defaults to 0.5; use 1 to pair only identical descriptions.
+   */
+  threshold?: number;
+}
+
+/**
+ * Pairs the todos of a new version of a list with the todos of an old version.
+ * Todos are paired by identifying key first, then by identical text in order,
+ * and finally by the similarity of their descriptions.
+ */
+export class TodoMatcher {
+  /** Matcher configuration options */
+  private options: TodoMatcherOptions & { threshold: number };
+
+  /**
+   * Creates a new TodoMatcher.
+   * @param {TodoMatcherOptions} [options] - Optional configuration.
+   */
+  constructor(options?: TodoMatcherOptions) {
+    this.options = { ...options, threshold: options?.threshold ?? 0.5 };
+  }
+
+  /**
+   * Pairs each todo of the new version with at most one todo of the old version.
+   * @param {Todo[]} from - The todos of the old version.
+   * @param {Todo[]} to - The todos of the new version.
+   * @returns {Map<Todo, Todo>} The old todo for each paired new todo.
+   */
+  public match(from: Todo[], to: Todo[]): Map<Todo, Todo> {
+    const pairs = new Map<Todo, Todo>();
+    const unmatched = new Set(from);
+    let remaining = to;
+
+    const { key } = this.options;
+    if (key) {
+      const byKey = new Map<string, Todo>();
+      for (const todo of from) {
+        const value = todo.keyValues[key];
+        if (value !== undefined && !byKey.has(String(value))) {
+          byKey.set(String(value), todo);
+        }
+      }
+      remaining = this.pairBy(remaining, pairs, unmatched, (todo) => {
+        const value = todo.keyValues[key];
+        return value === undefined ? undefined : byKey.get(String(value));
+      });
+    }
+
+    const byText = new Map<string, Todo[]>();
+    for (const todo of unmatched) {
+      const text = todo.toString();
+      const same = byText.get(text);
+      if (same) {
+        same.push(todo);
+      } else {
+        byText.set(text, [todo]);
+      }
+    }
+    remaining = this.pairBy(remaining, pairs, unmatched, (todo) =>
+      byText.get(todo.toString())?.find((match) => unmatched.has(match))
+    );
+
+    this.pairBySimilarity(remaining, pairs, unmatched);
+    return pairs;
+  }
+
+  /**
+   * Pairs todos with the candidate a lookup function returns.
+   * @param {Todo[]} todos - The todos to pair.
+   * @param {Map<Todo, Todo>} pairs - The pairs found so far; new pairs are added.
+   * @param {Set<Todo>} unmatched - The old todos not paired yet.
+   * @param {function} lookup - Returns the candidate old todo for a todo.
+   * @returns {Todo[]} The todos that remain unpaired.
+   * @private
+   */
+  private pairBy(
+    todos: Todo[],
+    pairs: Map<Todo, Todo>,
+    unmatched: Set<Todo>,
+    lookup: (todo: Todo) => Todo | undefined
+  ): Todo[] {
+    const remaining: Todo[] = [];
+    for (const todo of todos) {
+      const match = lookup(todo);
+      if (match && unmatched.has(match)) {
+        pairs.set(todo, match);
+        unmatched.delete(match);
+      } else {
+        remaining.push(todo);
+      }
+    }
+    return remaining;
+  }
+
+  /**
+   * Pairs todos with the old todo whose description shares the most words.
+   * Only old todos sharing one of the rarest words of a description are
+   * compared with it, since a pair above the threshold always shares one of
+   * them.
+   * @param {Todo[]} todos - The todos to pair.
+   * @param {Map<Todo, Todo>} pairs - The pairs found so far; new pairs are added.
+   * @param {Set<Todo>} unmatched - The old todos not paired yet.
+   * @private
+   */
+  private pairBySimilarity(
+    todos: Todo[],
+    pairs: Map<Todo, Todo>,
+    unmatched: Set<Todo>
+  ): void {
+    const previous = [...unmatched];
+    const words = new Map<Todo, Set<string>>();
+    const frequency = new Map<string, number>();
+    for (const todo of [...previous, ...todos]) {
+      const set = this.descriptionWords(todo);
+      words.set(todo, set);
+      for (const word of set) {
+        frequency.set(word, (frequency.get(word) ?? 0) + 1);
+      }
+    }
+    const prefix = (todo: Todo) =>
+      [...words.get(todo)!]
+        .sort(
+          (a, b) =>
+            frequency.get(a)! - frequency.get(b)! || (a < b ? -1 : +(a > b))
+        )
+        .slice(0, this.prefixLength(words.get(todo)!.size));
+
+    // Positions of the old todos by the words of their prefixes
+    const byWord = new Map<string, number[]>();
+    const empty: number[] = [];
+    previous.forEach((match, i) => {
+      if (words.get(match)!.size === 0) empty.push(i);
+      for (const word of prefix(match)) {
+        const positions = byWord.get(word);
+        if (positions) {
+          positions.push(i);
+        } else {
+          byWord.set(word, [i]);
+        }
+      }
+    });
+
+    const candidates: { todo: Todo; match: Todo; score: number }[] = [];
+    for (const todo of todos) {
+      const own = words.get(todo)!;
+      const found = new Set(own.size === 0 ? empty : []);
+      for (const word of prefix(todo)) {
+        for (const i of byWord.get(word) ?? []) found.add(i);
+      }
+      for (const i of [...found].sort((a, b) => a - b)) {
+        const match = previous[i];
+        const score = this.similarity(own, words.get(match)!);
+        if (score >= this.options.threshold) {
+          candidates.push({ todo, match, score });
+        }
+      }
+    }
+
+    // Stable sort keeps the line order among equally similar candidates
+    candidates.sort((a, b) => b.score - a.score);
+    for (const { todo, match, score } of candidates) {
+      if (score === 0 || pairs.has(todo) || !unmatched.has(match)) continue;
+      pairs.set(todo, match);
+      unmatched.delete(match);
+    }
+  }
+
+  /**
+   * Computes how many of the rarest words of a description to compare: a
+   * similarity of at least `t` needs at least `t * n` of its `n` words in
+   * common, so a similar description shares one of the first
+   * `n - ceil(t * n) + 1` words.
+   * @param {number} size - The number of words of the description.
+   * @returns {number} The number of rarest words to compare.
+   * @private
+   */
+  private prefixLength(size: number): number {
+    // The epsilon keeps rounding errors from shortening the prefix
+    const common = Math.max(1, Math.ceil(this.options.threshold * size - 1e-9));
+    return size - common + 1;
+  }
+
+  /**
+   * Splits the description of a todo into a set of lowercase words.
+   * @param {Todo} todo - The todo.
+   * @returns {Set<string>} The words of the description.
+   * @private
+   */
+  private descriptionWords(todo: Todo): Set<string> {
+    return new Set(
+      todo.description
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((word) => word)
+    );
+  }
+
+  /**
+   * Computes the Jaccard similarity of two word sets.
+   * @param {Set<string>} a - The first set.
+   * @param {Set<string>} b - The second set.
+   * @returns {number} A value between 0 (no common words) and 1 (same words).
+   * @private
+   */
+  private similarity(a: Set<string>, b: Set<string>): number {
+    let common = 0;
+    for (const word of a) {
+      if (b.has(word)) common++;
+    }
+    const total = a.size + b.size - common;
+    return total === 0 ? 1 : common / total;
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Provides the TodoMerger class for three-way merging of todo lists.
+ * Merging combines two edited versions of a todo.txt file with their common
+ * ancestor, e.g. to resolve sync conflicts between devices.
+ * @module TodoMerger
+ */
+
+import { Todo, TodoContentField, TodoField } from "./Todo";
+import { TodoDiff } from "./TodoDiff";
+import { TodoList } from "./TodoList";
+import { TodoMatcher } from "./TodoMatcher";
+
+/**
+ * Configuration options for a TodoMerger.
+ */
+export interface TodoMergeOptions {
+  /** Key-value pair that identifies a todo across versions, e.g. "id" */
+  key?: string;
+
+  /** Minimum description similarity for pairing edited todos. Defaults to 0.5. */
+  threshold?: number;
+
+  /** The side whose value is used for a conflicting field. Defaults to "ours". */
+  prefer?: "ours" | "theirs";
+}
+
+/**
+ * Both sides changed the same field of a todo to different values.
+ */
+export interface FieldConflict {
+  type: "field";
+
+  /** The todo in the merged list */
+  todo: Todo;
+
+  /** The conflicting field */
+  field: TodoField;
+
+  /** The conflicting key, if the field is "keyValues" */
+  key?: string;
+
+  /** The value in the common ancestor, undefined for todos added on both sides */
+  base: any;
+
+  /** The value in our version */
+  ours: any;
+
+  /** The value in their version */
+  theirs: any;
+}
+
+/**
+ * One side deleted a todo that the other side changed. The changed todo is kept.
+ */
+export interface DeleteConflict {
+  type: "deleted";
+
+  /** The todo in the merged list */
+  todo: Todo;
+
+  /** The side that deleted the todo */
+  deletedIn: "ours" | "theirs";
+
+  /** The todo in the common ancestor */
+  base: Todo;
+}
+
+/**
+ * A change that could not be merged automatically.
+ */
+export type MergeConflict = FieldConflict | DeleteConflict;
+
+/**
+ * The result of a three-way merge.
+ */
+export interface MergeResult {
+  /** The merged list, with conflicts resolved in favor of the preferred side */
+  list: TodoList;
+
+  /** The conflicts found while merging */
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Merges two versions of a todo list with their common ancestor.
+ * Todos are paired across versions and merged field by field: a change made on
+ * one side is taken over, projects, contexts and custom tags are merged as
+ * sets, and key-value pairs are merged per key. Conflicting changes are reported.
+ */
+export class TodoMerger {
+  /** Merger configuration options */
+  private options: TodoMergeOptions & { prefer: "ours" | "theirs" };
+
+  /**
+   * Creates a new TodoMerger.
+   * @param {TodoMergeOptions} [options] - Optional configuration.
+   */
+  constructor(options?: TodoMergeOptions) {
+    this.options = { ...options, prefer: options?.prefer ?? "ours" };
+  }
+
+  /**
+   * Merges our and their version of a list.
+   * The merged list follows our order; todos only in their version are appended.
+   * It has the options of our version, such as its schema and identity
+   * strategy. The input lists are not changed.
+   * @param {TodoList} base - The common ancestor of both versions.
+   * @param {TodoList} ours - Our version.
+   * @param {TodoList} theirs - Their version.
+   * @returns {MergeResult} The merged list and the conflicts.
+   */
+  public merge(base: TodoList, ours: TodoList, theirs: TodoList): MergeResult {
+    const { key, threshold } = this.options;
+    const matcher = new TodoMatcher({ key, threshold });
+    const baseOfOurs = matcher.match(base.getTodos(), ours.getTodos());
+    const baseOfTheirs = matcher.match(base.getTodos(), theirs.getTodos());
+    const oursOfBase = this.invert(baseOfOurs);
+    const theirsOfBase = this.invert(baseOfTheirs);
+
+    // Todos added on both sides with the same description are merged too
+    const added = new TodoMatcher({ key, threshold: 1 }).match(
+      ours.getTodos().filter((todo) => !baseOfOurs.has(todo)),
+      theirs.getTodos().filter((todo) => !baseOfTheirs.has(todo))
+    );
+    const addedInTheirs = this.invert(added);
+
+    const todos: Todo[] = [];
+    const conflicts: MergeConflict[] = [];
+
+    for (const todo of ours.getTodos()) {
+      const original = baseOfOurs.get(todo);
+      const other = original
+        ? theirsOfBase.get(original)
+        : addedInTheirs.get(todo);
+
+      if (other) {
+        todos.push(this.mergeTodo(original, todo, other, conflicts));
+      } else if (!original) {
+        todos.push(todo.clone({ keepId: true }));
+      } else if (TodoDiff.compareTodos(original, todo).length > 0) {
+        const kept = todo.clone({ keepId: true });
+        todos.push(kept);
+        conflicts.push({
+          type: "deleted",
+          todo: kept,
+          deletedIn: "theirs",
+          base: original,
+        });
+      }
+    }
+
+    for (const todo of theirs.getTodos()) {
+      const original = baseOfTheirs.get(todo);
+      if (!original) {
+        if (!added.has(todo)) {
+          todos.push(todo.clone({ keepId: true }));
+        }
+      } else if (
+        !oursOfBase.has(original) &&
+        TodoDiff.compareTodos(original, todo).length > 0
+      ) {
+        const kept = todo.clone({ keepId: true });
+        todos.push(kept);
+        conflicts.push({
+          type: "deleted",
+          todo: kept,
+          deletedIn: "ours",
+          base: original,
+        });
+      }
+    }
+
+    const list = new TodoList(undefined, ours.getOptions());
+    list.parse(todos);
+    return { list, conflicts };
+  }
+
+  /**
+   * Merges the fields of a todo that exists in both versions.
+   * @param {Todo|undefined} base - The todo in the common ancestor, if any.
+   * @param {Todo} ours - The todo in our version.
+   * @param {Todo} theirs - The todo in their version.
+   * @param {MergeConflict[]} conflicts - Found conflicts are added to this array.
+   * @returns {Todo} The merged todo, keeping our id.
+   * @private
+   */
+  private mergeTodo(
+    base: Todo | undefined,
+    ours: Todo,
+    theirs: Todo,
+    conflicts: MergeConflict[]
+  ): Todo {
+    const merged = ours.clone({ keepId: true });
+    const baseFields: Partial<Record<TodoField, any>> = base?.getFields() ?? {};
+    const ourFields = ours.getFields();
+    const theirFields = theirs.getFields();
+    const values: Partial<Record<TodoField, any>> = {};
+
+    const mergeValue = (
+      field: TodoField,
+      baseValue: any,
+      ourValue: any,
+      theirValue: any,
+      key?: string
+    ): any => {
+      if (
+        TodoDiff.valuesEqual(ourValue, theirValue) ||
+        TodoDiff.valuesEqual(theirValue, baseValue)
+      ) {
+        return ourValue;
+      }
+      if (TodoDiff.valuesEqual(ourValue, baseValue)) {
+        return theirValue;
+      }
+      conflicts.push({
+        type: "field",
+        todo: merged,
+        field,
+        ...(key !== undefined && { key }),
+        base: baseValue,
+        ours: ourValue,
+        theirs: theirValue,
+      });
+      return this.options.prefer === "ours" ? ourValue : theirValue;
+    };
+
+    for (const field of Object.keys(ourFields) as TodoContentField[]) {
+      switch (field) {
+        case "projects":
+        case "contexts":
+          values[field] = this.mergeTags(
+            baseFields[field] ?? [],
+            ourFields[field],
+            theirFields[field]
+          );
+          break;
+        case "tags": {
+          const baseTags = baseFields.tags ?? {};
+          const tags: { [type: string]: string[] } = {};
+          const types = new Set([
+            ...Object.keys(baseTags),
+            ...Object.keys(ourFields.tags),
+            ...Object.keys(theirFields.tags),
+          ]);
+          for (const type of types) {
+            const merged = this.mergeTags(
+              baseTags[type] ?? [],
+              ourFields.tags[type] ?? [],
+              theirFields.tags[type] ?? []
+            );
+            if (merged.length > 0) {
+              tags[type] = merged;
+            }
+          }
+          values.tags = tags;
+          break;
+        }
+        case "keyValues": {
+          const baseValues = baseFields.keyValues ?? {};
+          const keyValues: { [key: string]: any } = {};
+          const keys = new Set([
+            ...Object.keys(baseValues),
+            ...Object.keys(ourFields.keyValues),
+            ...Object.keys(theirFields.keyValues),
+          ]);
+          for (const key of keys) {
+            const value = mergeValue(
+              field,
+              baseValues[key],
+              ourFields.keyValues[key],
+              theirFields.keyValues[key],
+              key
+            );
+            if (value !== undefined) {
+              keyValues[key] = value;
+            }
+          }
+          values.keyValues = keyValues;
+          break;
+        }
+        default:
+          values[field] = mergeValue(
+            field,
+            baseFields[field],
+            ourFields[field],
+            theirFields[field]
+          );
+      }
+    }
+
+    merged.setFields(values);
+    return merged;
+  }
+
+  /**
+   * Merges tag lists as sets: tags added on either side are kept and tags
+   * removed on either side are dropped.
+   * @param {string[]} base - The tags in the common ancestor.
+   * @param {string[]} ours - The tags in our version.
+   * @param {string[]} theirs - The tags in their version.
+   * @returns {string[]} The merged tags, in our order followed by their additions.
+   * @private
+   */
+  private mergeTags(
+    base: string[],
+    ours: string[],
+    theirs: string[]
+  ): string[] {
+    const removedInTheirs = base.filter((tag) => !theirs.includes(tag));
+    const addedInTheirs = theirs.filter(
+      (tag) => !base.includes(tag) && !ours.includes(tag)
+    );
+    return [
+      ...ours.filter((tag) => !removedInTheirs.includes(tag)),
+      ...addedInTheirs,
+    ];
+  }
+
+  /**
+   * Inverts a map of pairs.
+   * @param {Map<Todo, Todo>} pairs - The pairs to invert.
+   * @returns {Map<Todo, Todo>} The map from values to keys.
+   * @private
+   */
+  private invert(pairs: Map<Todo, Todo>): Map<Todo, Todo> {
+    return new Map([...pairs].map(([a, b]) => [b, a]));
+  }
+}
@@ -1,10 +1,41 @@
 /**
  * @fileoverview Provides the TodoParsingError class for handling parser exceptions.
  * This class extends the standard Error class to include information about
- * where in the token stream an error occurred.
+ * where in the token stream an error occurred. The file also defines the
+ * diagnostics reported when a todo list is parsed in recovering mode.
  * @module TodoParsingError
  */
 
+/**
+ * Severity of a parsing problem.
+ * - "error": the line did not match its schema and was kept with its raw values
+ * - "warning": the line was parsed, but probably not as intended
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * A problem found while parsing a todo list in recovering mode.
+ */
+export interface ParseDiagnostic {
+  /** Line number in the parsed text (1-based, blank lines included) */
+  line: number;
+
+  /** Column of the offending token in the line (1-based) */
+  column: number;
+
+  /** Index of the offending token in the line's token stream */
+  tokenIndex: number;
+
+  /** Severity of the problem */
+  severity: DiagnosticSeverity;
+
+  /** Human-readable description of the problem */
+  message: string;
+
+  /** Id of the todo that was created for the line */
+  todoId: string;
+}
+
 /**
  * Error class for todo parsing errors.
  * Extends the standard Error class with additional information about
@@ -14,14 +45,23 @@ export class TodoParsingError extends Error {
   /** The index of the token where the error occurred */
   public tokenIndex?: number;
 
+  /** The severity of the error */
+  public severity: DiagnosticSeverity;
+
   /**
    * Creates a new TodoParsingError.
    * @param {string} message - Error message.
    * @param {number} [tokenIndex] - Optional index of the token where the error occurred.
+   * @param {DiagnosticSeverity} [severity="error"] - Optional severity of the error.
    */
-  constructor(message: string, tokenIndex?: number) {
+  constructor(
+    message: string,
+    tokenIndex?: number,
+    severity: DiagnosticSeverity = "error"
+  ) {
     super(message);
     this.name = "TodoParsingError";
     this.tokenIndex = tokenIndex;
+    this.severity = severity;
   }
 }
@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Provides the TodoReader class for parsing todo.txt text line by line.
+ * The reader parses strings, iterables of lines and streams of text chunks
+ * without holding the whole file in memory, yielding each todo with its line number.
+ * @module TodoReader
+ */
+
+import { Scanner, ScannerOptions } from "./Scanner";
+import { Parser, ParserOptions } from "./Parser";
+import { Todo } from "./Todo";
+import { ParseDiagnostic } from "./TodoParsingError";
+import { Clock } from "./Clock";
+import { KeySchema } from "./KeySchema";
+
+/**
+ * Configuration options for a TodoReader.
+ */
+export interface TodoReaderOptions<
+  V extends Record<string, any> = Record<string, any>
+> {
+  /** Options passed to the parser */
+  parserOptions?: ParserOptions;
+
+  /** Options of the scanner that splits lines into tokens */
+  scanner?: ScannerOptions;
+
+  /** Types of the key-value pairs of parsed todos; see {@link KeySchema} */
+  schema?: KeySchema<V>;
+
+  /** Clock providing today's date. Defaults to the global clock. */
+  clock?: Clock;
+}
+
+/**
+ * A todo parsed from a line of text.
+ */
+export interface ParsedTodo<
+  V extends Record<string, any> = Record<string, any>
+> {
+  /** The parsed todo */
+  todo: Todo<V>;
+
+  /** Line number in the text (1-based, blank lines included) */
+  line: number;
+
+  /** Problems found in the line; only reported when recovering */
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * A source of text chunks, such as a Node.js `Readable` or a WHATWG
+ * `ReadableStream`. Chunks may split lines; binary chunks are decoded as UTF-8.
+ */
+export type TodoTextStream =
+  | AsyncIterable<string | Uint8Array>
+  | ReadableStream<string | Uint8Array>;
+
+/**
+ * Parses todo.txt text line by line. One scanner and one parser are reused
+ * for all lines, and blank lines are skipped.
+ *
+ * ```ts
+ * const reader = new TodoReader();
+ * for await (const { todo, line } of reader.read(fs.createReadStream("done.txt"))) {
+ *   console.log(line, todo.description);
+ * }
+ * ```
+ */
+export class TodoReader<V extends Record<string, any> = Record<string, any>> {
+  /** The scanner shared by all lines */
+  private scanner: Scanner;
+
+  /** The parser shared by all lines */
+  private parser: Parser;
+
+  /**
+   * Creates a new TodoReader.
+   * @param {TodoReaderOptions} [options] - Optional configuration.
+   */
+  constructor(options: TodoReaderOptions<V> = {}) {
+    this.scanner = new Scanner(options.scanner);
+    this.parser = new Parser([], {
+      clock: options.clock,
+      schema: options.schema,
+      keyPattern: options.scanner?.keyPattern,
+      ...options.parserOptions,
+    });
+  }
+
+  /**
+   * Parses a single line.
+   * @param {string} text - The text of the line.
+   * @param {number} [line] - The line number reported with the todo. Defaults to 1.
+   * @returns {ParsedTodo|undefined} The parsed todo, or undefined for a blank line.
+   * @throws {TodoParsingError} If parsing fails and the parser is not recovering.
+   */
+  public parseLine(text: string, line: number = 1): ParsedTodo<V> | undefined {
+    if (text.trim() === "") return undefined;
+
+    const tokens = this.scanner.scan(text);
+    const todo = this.parser.parseTokens(tokens) as Todo<V>;
+    const diagnostics = this.parser.getErrors().map((error) => {
+      const tokenIndex = error.tokenIndex ?? 0;
+      return {
+        line,
+        column: (tokens[tokenIndex]?.start ?? 0) + 1,
+        tokenIndex,
+        severity: error.severity,
+        message: error.message,
+        todoId: todo.id,
+      };
+    });
+
+    return { todo, line, diagnostics };
+  }
+
+  /**
+   * Parses a text, or the lines of an iterable, one line at a time.
+   * @param {string|Iterable<string>} text - The text, or its lines without line separators.
+   * @returns {Generator<ParsedTodo>} The todos in line order.
+   * @throws {TodoParsingError} If parsing fails and the parser is not recovering.
+   */
+  public *parse(text: string | Iterable<string>): Generator<ParsedTodo<V>> {
+    const lines = typeof text === "string" ? TodoReader.lines(text) : text;
+    let line = 0;
+    for (const content of lines) {
+      const parsed = this.parseLine(content, ++line);
+      if (parsed) yield parsed;
+    }
+  }
+
+  /**
+   * Parses a stream of text chunks as they arrive.
+   * @param {TodoTextStream} stream - The stream, e.g. a Node.js Readable or a ReadableStream.
+   * @returns {AsyncGenerator<ParsedTodo>} The todos in line order.
+   * @throws {TodoParsingError} If parsing fails and the parser is not recovering.
+   */
+  public async *read(stream: TodoTextStream): AsyncGenerator<ParsedTodo<V>> {
+    const decoder = new TextDecoder();
+    let rest = "";
+    let line = 0;
+
+    for await (const chunk of TodoReader.chunks(stream)) {
+      rest +=
+        typeof chunk === "string"
+          ? chunk
+          : decoder.decode(chunk, { stream: true });
+
+      // Parse the complete lines; the rest may continue in the next chunk
+      let end = rest.indexOf("\n");
+      let start = 0;
+      while (end !== -1) {
+        const parsed = this.parseLine(
+          TodoReader.stripCarriageReturn(rest.substring(start, end)),
+          ++line
+        );
+        if (parsed) yield parsed;
+        start = end + 1;
+        end = rest.indexOf("\n", start);
+      }
+      rest = rest.substring(start);
+    }
+
+    rest += decoder.decode();
+    const parsed = this.parseLine(TodoReader.stripCarriageReturn(rest), ++line);
+    if (parsed) yield parsed;
+  }
+
+  /**
+   * Splits a text into lines without creating an array of all lines.
+   * @param {string} text - The text.
+   * @returns {Generator<string>} The lines without line separators.
+   * @private
+   */
+  private static *lines(text: string): Generator<string> {
+    let start = 0;
+    let end = text.indexOf("\n");
+    while (end !== -1) {
+      yield TodoReader.stripCarriageReturn(text.substring(start, end));
+      start = end + 1;
+      end = text.indexOf("\n", start);
+    }
+    yield TodoReader.stripCarriageReturn(text.substring(start));
+  }
+
+  /**
+   * Removes the carriage return of a Windows line ending.
+   * @param {string} line - The line.
+   * @returns {string} The line without a trailing "\r".
+   * @private
+   */
+  private static stripCarriageReturn(line: string): string {
+    return line.endsWith("\r") ? line.slice(0, -1) : line;
+  }
+
+  /**
+   * Iterates the chunks of a stream, reading WHATWG streams through a reader.
+   * @param {TodoTextStream} stream - The stream.
+   * @returns {AsyncIterable} The chunks.
+   * @private
+   */
+  private static async *chunks(
+    stream: TodoTextStream
+  ): AsyncGenerator<string | Uint8Array> {
+    if (!("getReader" in stream)) {
+      yield* stream;
+      return;
+    }
+
+    const reader = stream.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
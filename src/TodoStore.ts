@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Provides the TodoStore class for reading and writing todo.txt files.
+ * The store keeps a todo.txt and a done.txt file in one directory in sync with
+ * two TodoList instances. It depends on Node's file system API and is therefore
+ * only exported from the "todotxt4js/node" entry point.
+ * @module TodoStore
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ParserOptions } from "./Parser";
+import { Todo } from "./Todo";
+import { TodoList, TodoListOptions } from "./TodoList";
+
+/**
+ * Configuration options for a TodoStore.
+ */
+export interface TodoStoreOptions {
+  /** File name of the todo file inside the directory. Defaults to "todo.txt". */
+  todoFile?: string;
+
+  /** File name of the done file inside the directory. Defaults to "done.txt". */
+  doneFile?: string;
+
+  /** Options passed to the parser when the files are loaded */
+  parserOptions?: ParserOptions;
+
+  /** Options for both lists, e.g. how todos keep their ids when the files are reloaded */
+  listOptions?: TodoListOptions;
+
+  /**
+   * Whether todos keep their original layout when saving, rewriting only the
+   * edited parts of each line. Defaults to false.
+   */
+  lossless?: boolean;
+}
+
+/**
+ * Line-ending style of a file, detected on load and reused on save.
+ */
+export interface FileFormat {
+  /** The line separator used in the file */
+  eol: "\n" | "\r\n";
+
+  /** Whether the last line ends with a line separator */
+  trailingNewline: boolean;
+}
+
+/** Format used for files that do not exist yet */
+const DEFAULT_FORMAT: FileFormat = { eol: "\n", trailingNewline: true };
+
+/**
+ * A file-backed store for a todo.txt and a done.txt file in one directory.
+ * Saving is atomic: each file is written to a temporary file first and then
+ * renamed over the original.
+ */
+export class TodoStore {
+  /** The todos from the todo file */
+  readonly todoList: TodoList;
+
+  /** The todos from the done file */
+  readonly doneList: TodoList;
+
+  /** Store configuration options */
+  private options: TodoStoreOptions & {
+    todoFile: string;
+    doneFile: string;
+    lossless: boolean;
+  };
+
+  /** Detected format of the todo file */
+  private todoFormat: FileFormat = { ...DEFAULT_FORMAT };
+
+  /** Detected format of the done file */
+  private doneFormat: FileFormat = { ...DEFAULT_FORMAT };
+
+  /** Whether the done file was read into the done list */
+  private doneLoaded: boolean = false;
+
+  /**
+   * Creates a new TodoStore. Call {@link TodoStore.load} to read the files.
+   * @param {string} directory - Directory containing the todo and done files.
+   * @param {TodoStoreOptions} [options] - Optional configuration.
+   */
+  constructor(public readonly directory: string, options?: TodoStoreOptions) {
+    this.options = {
+      todoFile: "todo.txt",
+      doneFile: "done.txt",
+      lossless: false,
+      ...options,
+    };
+    this.todoList = new TodoList(undefined, this.options.listOptions);
+    this.doneList = new TodoList(undefined, this.options.listOptions);
+  }
+
+  /** Get the absolute path of the todo file */
+  get todoPath(): string {
+    return path.resolve(this.directory, this.options.todoFile);
+  }
+
+  /** Get the absolute path of the done file */
+  get donePath(): string {
+    return path.resolve(this.directory, this.options.doneFile);
+  }
+
+  /**
+   * Reads both files into the todo and done lists.
+   * A file that does not exist is treated as empty.
+   * @returns {Promise<void>} Resolves when both files are loaded.
+   * @throws {TodoParsingError} If a todo fails to parse.
+   */
+  public async load(): Promise<void> {
+    const [todoText, doneText] = await Promise.all([
+      this.readFile(this.todoPath),
+      this.readFile(this.donePath),
+    ]);
+
+    this.todoFormat = this.detectFormat(todoText);
+    this.doneFormat = this.detectFormat(doneText);
+    this.todoList.parse(todoText ?? "", this.options.parserOptions);
+    this.doneList.parse(doneText ?? "", this.options.parserOptions);
+    this.doneLoaded = true;
+  }
+
+  /**
+   * Writes both lists back to their files, keeping each file's line endings.
+   * @returns {Promise<void>} Resolves when both files are written.
+   */
+  public async save(): Promise<void> {
+    await this.writeFile(this.todoPath, this.todoList, this.todoFormat);
+    await this.writeFile(this.donePath, this.doneList, this.doneFormat);
+  }
+
+  /**
+   * Moves all completed todos from the todo file to the end of the done file,
+   * like `todo.sh archive`, and saves both files.
+   * @returns {Promise<Todo[]>} The todos that were archived.
+   */
+  public async archive(): Promise<Todo[]> {
+    const completed = this.todoList.getCompletedTodos();
+    if (completed.length === 0) {
+      return [];
+    }
+
+    // The done file is read first so that archiving appends to it
+    if (!this.doneLoaded) {
+      await this.loadDone();
+    }
+
+    this.todoList.batch(() =>
+      this.doneList.batch(() => {
+        for (const todo of completed) {
+          this.todoList.deleteTodo(todo);
+          this.doneList.addTodo(todo);
+        }
+      })
+    );
+
+    // Write the done file first so a failure never loses completed todos
+    await this.writeFile(this.donePath, this.doneList, this.doneFormat);
+    await this.writeFile(this.todoPath, this.todoList, this.todoFormat);
+    return completed;
+  }
+
+  /**
+   * Reads the done file into the done list, keeping todos already added to
+   * the list after those of the file.
+   * @returns {Promise<void>} Resolves when the done file is loaded.
+   * @throws {TodoParsingError} If a todo fails to parse.
+   * @private
+   */
+  private async loadDone(): Promise<void> {
+    const doneText = await this.readFile(this.donePath);
+    const added = [...this.doneList.getTodos()];
+
+    this.doneFormat = this.detectFormat(doneText);
+    this.doneList.parse(doneText ?? "", this.options.parserOptions);
+    for (const todo of added) {
+      this.doneList.addTodo(todo);
+    }
+    this.doneLoaded = true;
+  }
+
+  /**
+   * Reads a file, returning undefined if it does not exist.
+   * @param {string} filePath - Path of the file.
+   * @returns {Promise<string|undefined>} The file content.
+   * @private
+   */
+  private async readFile(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Detects the line-ending style of a file's content.
+   * @param {string|undefined} text - The file content, or undefined for a missing file.
+   * @returns {FileFormat} The detected format.
+   * @private
+   */
+  private detectFormat(text: string | undefined): FileFormat {
+    if (!text) {
+      return { ...DEFAULT_FORMAT };
+    }
+    return {
+      eol: text.includes("\r\n") ? "\r\n" : "\n",
+      trailingNewline: text.endsWith("\n"),
+    };
+  }
+
+  /**
+   * Atomically writes a list to a file through a temporary file and a rename.
+   * @param {string} filePath - Path of the file.
+   * @param {TodoList} list - The list to write.
+   * @param {FileFormat} format - The line-ending style to use.
+   * @returns {Promise<void>} Resolves when the file is replaced.
+   * @private
+   */
+  private async writeFile(
+    filePath: string,
+    list: TodoList,
+    format: FileFormat
+  ): Promise<void> {
+    const lines = list
+      .getTodos()
+      .map((todo) => todo.toString({ lossless: this.options.lossless }));
+    let text = lines.join(format.eol);
+    if (format.trailingNewline && lines.length > 0) {
+      text += format.eol;
+    }
+
+    const tempPath = path.join(
+      path.dirname(filePath),
+      `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+    );
+    try {
+      await fs.writeFile(tempPath, text, "utf8");
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
@@ -28,17 +28,36 @@ export enum TokenType {
 
   /** Any other word (fallback) */
   WORD,
+
+  /** A word matched by a custom token rule; see {@link Token.customType} */
+  CUSTOM,
 }
 
 /**
  * Class representing a token in the todo.txt syntax.
  * A token is a fundamental unit of the text with a specific meaning.
+ * Besides its value, a token remembers where it was found in the source line
+ * and the whitespace around it, so a line can be rebuilt exactly.
  */
 export class Token {
+  /** For CUSTOM tokens: the name of the token type, e.g. "hashtag" */
+  public customType?: string;
+
   /**
    * Creates a new Token.
    * @param {TokenType} type - The type of the token.
    * @param {string} value - The string value of the token.
+   * @param {number} [start=0] - Offset of the first character of the token in the source line.
+   * @param {number} [end] - Offset just past the last character of the token. Defaults to start + value.length.
+   * @param {string} [leadingWhitespace=""] - The original whitespace directly before the token.
+   * @param {string} [trailingWhitespace=""] - The original whitespace after the token, only set on the last token of a line.
    */
-  constructor(public type: TokenType, public value: string) {}
+  constructor(
+    public type: TokenType,
+    public value: string,
+    public start: number = 0,
+    public end: number = start + value.length,
+    public leadingWhitespace: string = "",
+    public trailingWhitespace: string = ""
+  ) {}
 }
@@ -4,3 +4,20 @@ export * from "./Parser";
 export * from "./Scanner";
 export * from "./Token";
 export * from "./TodoParsingError";
+export * from "./Query";
+export * from "./QueryParser";
+export * from "./QueryScanner";
+export * from "./QueryToken";
+export * from "./QuerySyntaxError";
+export * from "./TodoListEvents";
+export * from "./TodoHistory";
+export * from "./TodoMatcher";
+export * from "./TodoMerger";
+export * from "./TodoDiff";
+export * from "./Recurrence";
+export * from "./Clock";
+export * from "./CalendarDate";
+export * from "./DateExpression";
+export * from "./KeySchema";
+export * from "./TodoReader";
+export * from "./TodoIndex";
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from "@jest/globals";
+import { Clock } from "../src/Clock";
+import { CalendarDate } from "../src/CalendarDate";
+import { TodoList } from "../src/TodoList";
+import { Todo } from "../src/Todo";
+
+describe("Clock", () => {
+  afterEach(() => Clock.setDefault());
+
+  it("should resolve today in an explicit time zone", () => {
+    const instant = new Date("2024-03-10T23:30:00Z");
+    const now = () => instant;
+
+    expect(new Clock({ timeZone: "UTC", now }).today()).toBe("2024-03-10");
+    expect(new Clock({ timeZone: "America/New_York", now }).today()).toBe(
+      "2024-03-10"
+    );
+    expect(new Clock({ timeZone: "Asia/Tokyo", now }).today()).toBe(
+      "2024-03-11"
+    );
+  });
+
+  it("should resolve today in the local time zone by default", () => {
+    const instant = new Date(2024, 2, 10, 23, 30);
+    expect(new Clock({ now: () => instant }).today()).toBe("2024-03-10");
+  });
+
+  it("should reject unknown time zones", () => {
+    expect(() => new Clock({ timeZone: "Mars/Olympus" })).toThrow(RangeError);
+  });
+
+  it("should freeze time at a calendar date or an instant", () => {
+    expect(Clock.fixed("2024-02-29").today()).toBe("2024-02-29");
+    expect(Clock.fixed("2024-02-29", "Pacific/Kiritimati").today()).toBe(
+      "2024-02-29"
+    );
+
+    const clock = Clock.fixed("2024-02-29T20:00:00Z", "Asia/Tokyo");
+    expect(clock.today()).toBe("2024-03-01");
+    expect(clock.now().toISOString()).toBe("2024-02-29T20:00:00.000Z");
+  });
+
+  it("should use the global clock for todos", () => {
+    Clock.setDefault(Clock.fixed("2024-05-10"));
+    const todo = new Todo({ description: "Pay rent", due: "2024-05-12" });
+
+    expect(todo.daysUntilDue()).toBe(2);
+    expect(todo.isDueToday()).toBe(false);
+    todo.markCompleted();
+    expect(todo.completionDate).toBe("2024-05-10");
+  });
+
+  it("should prefer the clock of a list over the global clock", () => {
+    Clock.setDefault(Clock.fixed("2024-05-01"));
+    const list = new TodoList(
+      "Pay rent due:2024-05-10\nCall mom due:2024-05-09\nFile taxes due:2024-05-12",
+      { clock: Clock.fixed("2024-05-10") }
+    );
+
+    expect(list.getDueTodayTodos().map((t) => t.description)).toEqual([
+      "Pay rent",
+    ]);
+    expect(list.getOverdueTodos().map((t) => t.description)).toEqual([
+      "Call mom",
+    ]);
+    expect(list.getDueInNextNDaysTodos(1).map((t) => t.description)).toEqual([
+      "Pay rent",
+      "Call mom",
+    ]);
+    expect(list.filter("due:today").map((t) => t.description)).toEqual([
+      "Pay rent",
+    ]);
+
+    const { completed } = list.complete(list.todos[0]);
+    expect(completed.completionDate).toBe("2024-05-10");
+  });
+});
+
+describe("CalendarDate", () => {
+  it("should add days, weeks, months and years", () => {
+    expect(CalendarDate.add("2024-02-28", 2)).toBe("2024-03-01");
+    expect(CalendarDate.add("2024-03-01", -1, "w")).toBe("2024-02-23");
+    expect(CalendarDate.add("2024-11-15", 3, "m")).toBe("2025-02-15");
+    expect(CalendarDate.add("2024-05-01", -2, "y")).toBe("2022-05-01");
+  });
+
+  it("should clamp to the end of shorter months", () => {
+    expect(CalendarDate.add("2024-01-31", 1, "m")).toBe("2024-02-29");
+    expect(CalendarDate.add("2024-02-29", 1, "y")).toBe("2025-02-28");
+  });
+
+  it("should count days between dates across DST changes", () => {
+    expect(CalendarDate.diff("2024-03-09", "2024-03-11")).toBe(2);
+    expect(CalendarDate.diff("2024-11-04", "2024-10-27")).toBe(-8);
+  });
+
+  it("should return an empty date for invalid dates", () => {
+    expect(CalendarDate.fromTime(NaN)).toBe("");
+    expect(CalendarDate.add("someday", -3)).toBe("");
+    expect(CalendarDate.add("2024-13-45", 1, "m")).toBe("");
+    expect(CalendarDate.addBusinessDays("tomorrow", 2)).toBe("");
+  });
+
+  it("should get the weekday of a date", () => {
+    expect(CalendarDate.weekday("2024-03-10")).toBe(0);
+    expect(CalendarDate.weekday("2024-03-15")).toBe(5);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from "@jest/globals";
+import { DateExpression } from "../src/DateExpression";
+import { Scanner } from "../src/Scanner";
+import { Parser } from "../src/Parser";
+import { Todo } from "../src/Todo";
+import { Clock } from "../src/Clock";
+
+describe("DateExpression", () => {
+  // A Monday
+  const TODAY = "2026-10-19";
+  const resolve = (expression: string) =>
+    DateExpression.resolve(expression, TODAY);
+
+  afterEach(() => Clock.setDefault());
+
+  it("should resolve named days", () => {
+    expect(resolve("today")).toBe("2026-10-19");
+    expect(resolve("tomorrow")).toBe("2026-10-20");
+    expect(resolve("tom")).toBe("2026-10-20");
+    expect(resolve("yesterday")).toBe("2026-10-18");
+    expect(resolve("2026-12-24")).toBe("2026-12-24");
+  });
+
+  it("should resolve weekdays to the next such day", () => {
+    expect(resolve("fri")).toBe("2026-10-23");
+    expect(resolve("FRIDAY")).toBe("2026-10-23");
+    expect(resolve("sun")).toBe("2026-10-25");
+    expect(resolve("mon")).toBe("2026-10-26");
+  });
+
+  it("should resolve offsets including business days", () => {
+    expect(resolve("+2w")).toBe("2026-11-02");
+    expect(resolve("3d")).toBe("2026-10-22");
+    expect(resolve("-1m")).toBe("2026-09-19");
+    expect(resolve("+1y")).toBe("2027-10-19");
+    expect(resolve("+5b")).toBe("2026-10-26");
+    expect(resolve("-1b")).toBe("2026-10-16");
+  });
+
+  it("should resolve expressions followed by an offset", () => {
+    expect(resolve("today+3")).toBe("2026-10-22");
+    expect(resolve("tomorrow-1w")).toBe("2026-10-13");
+    expect(resolve("fri+1w")).toBe("2026-10-30");
+    expect(resolve("eom-2b")).toBe("2026-10-29");
+    expect(resolve("someday+1")).toBeUndefined();
+  });
+
+  it("should resolve the end and the start of periods", () => {
+    expect(resolve("eow")).toBe("2026-10-25");
+    expect(resolve("eom")).toBe("2026-10-31");
+    expect(resolve("eoq")).toBe("2026-12-31");
+    expect(resolve("eoy")).toBe("2026-12-31");
+    expect(DateExpression.resolve("eom", "2024-02-10")).toBe("2024-02-29");
+
+    expect(resolve("next-week")).toBe("2026-10-26");
+    expect(resolve("next-month")).toBe("2026-11-01");
+    expect(resolve("next-quarter")).toBe("2027-01-01");
+    expect(resolve("next-year")).toBe("2027-01-01");
+  });
+
+  it("should not resolve unknown expressions or invalid dates", () => {
+    expect(resolve("someday")).toBeUndefined();
+    expect(resolve("2026-02-30")).toBeUndefined();
+    expect(resolve("+3")).toBeUndefined();
+  });
+
+  it("should resolve date keys when parsing if enabled", () => {
+    const tokens = new Scanner().scan(
+      "call bob due:fri t:-1d until:eom note:tomorrow"
+    );
+    const values = tokens.map((token) => token.value);
+    const parser = new Parser(tokens, { resolveDates: true, today: TODAY });
+    const todo = parser.parseTodo();
+
+    expect(todo.keyValues).toEqual({
+      due: "2026-10-23",
+      t: "-1d",
+      until: "2026-10-31",
+      note: "tomorrow",
+    });
+    expect(todo.source).toBe(
+      "call bob due:2026-10-23 t:-1d until:2026-10-31 note:tomorrow"
+    );
+    expect(tokens.map((token) => token.value)).toEqual(values);
+
+    const verbatim = new Parser(new Scanner().scan("call bob due:fri"));
+    expect(verbatim.parseTodo().getDueDate()).toBe("fri");
+  });
+
+  it("should resolve dates set on a todo against the clock if enabled", () => {
+    Clock.setDefault(Clock.fixed(TODAY));
+    const todo = new Todo({
+      description: "Quarterly report",
+      creationDate: "today",
+      due: "eoq",
+      resolveDates: true,
+    });
+    todo.setThresholdDate("next-month");
+
+    expect(todo.creationDate).toBe("2026-10-19");
+    expect(todo.getDueDate()).toBe("2026-12-31");
+    expect(todo.getThresholdDate()).toBe("2026-11-01");
+
+    todo.setThresholdDate("-2w");
+    expect(todo.getThresholdDate()).toBe("2026-12-17");
+  });
+
+  it("should store dates set on a todo as they are by default", () => {
+    Clock.setDefault(Clock.fixed(TODAY));
+    const todo = new Todo({ description: "Pay rent", creationDate: "fri" });
+    todo.setDueDate("eom");
+    todo.setThresholdDate("next-month");
+
+    expect(todo.creationDate).toBe("fri");
+    expect(todo.getDueDate()).toBe("eom");
+    expect(todo.keyValues["t"]).toBe("next-month");
+
+    const parsed = new Parser(new Scanner().scan("Pay rent"), {
+      resolveDates: true,
+      today: TODAY,
+    }).parseTodo();
+    parsed.setDueDate("tomorrow");
+    expect(parsed.getDueDate()).toBe("2026-10-20");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "@jest/globals";
+import { KeySchema, KeyTypes } from "../src/KeySchema";
+import { TodoList } from "../src/TodoList";
+import { TodoParsingError } from "../src/TodoParsingError";
+
+describe("KeySchema", () => {
+  const schema = new KeySchema({
+    estimate: KeyTypes.duration,
+    points: KeyTypes.integer,
+    cost: KeyTypes.decimal,
+    billable: KeyTypes.boolean,
+    start: KeyTypes.date,
+    status: KeyTypes.enum("open", "blocked", "done"),
+    tags: KeyTypes.list(),
+    link: KeyTypes.url,
+  });
+
+  describe("Built-in Types", () => {
+    it("should parse and format durations in minutes", () => {
+      expect(KeyTypes.duration.parse("1h30m")).toBe(90);
+      expect(KeyTypes.duration.parse("2d")).toBe(2880);
+      expect(KeyTypes.duration.parse("1w")).toBe(10080);
+      expect(KeyTypes.duration.format(90)).toBe("1h30m");
+      expect(KeyTypes.duration.format(1500)).toBe("1d1h");
+      expect(KeyTypes.duration.format(0)).toBe("0m");
+      expect(() => KeyTypes.duration.parse("soon")).toThrow(
+        "Invalid duration 'soon'"
+      );
+    });
+
+    it("should parse numbers, booleans and dates", () => {
+      expect(KeyTypes.integer.parse("-12")).toBe(-12);
+      expect(() => KeyTypes.integer.parse("1.5")).toThrow();
+      expect(KeyTypes.decimal.parse("2.75")).toBe(2.75);
+      expect(KeyTypes.boolean.parse("yes")).toBe(true);
+      expect(KeyTypes.boolean.parse("0")).toBe(false);
+      expect(KeyTypes.date.parse("2024-02-29")).toBe("2024-02-29");
+      expect(() => KeyTypes.date.parse("2023-02-29")).toThrow();
+    });
+
+    it("should check enums, lists and URLs", () => {
+      const priority = KeyTypes.enum("low", "high");
+      expect(priority.parse("low")).toBe("low");
+      expect(() => priority.parse("urgent")).toThrow();
+
+      const sizes = KeyTypes.list(KeyTypes.integer, ";");
+      expect(sizes.parse("1;2;3")).toEqual([1, 2, 3]);
+      expect(sizes.format([4, 5])).toBe("4;5");
+
+      expect(KeyTypes.url.parse("https://example.com/a?b=1")).toBe(
+        "https://example.com/a?b=1"
+      );
+      expect(() => KeyTypes.url.parse("example")).toThrow();
+    });
+  });
+
+  describe("Parsing and Serialization", () => {
+    const line =
+      "Fix login estimate:1h30m points:3 cost:12.5 billable:yes start:2024-05-01 status:blocked tags:ui,auth link:https://example.com/42 note:x";
+
+    it("should parse declared keys to typed values", () => {
+      const list = new TodoList(line, { schema });
+      const todo = list.todos[0];
+
+      expect(todo.get("estimate")).toBe(90);
+      expect(todo.get("points")).toBe(3);
+      expect(todo.get("cost")).toBe(12.5);
+      expect(todo.get("billable")).toBe(true);
+      expect(todo.get("start")).toBe("2024-05-01");
+      expect(todo.get("status")).toBe("blocked");
+      expect(todo.get("tags")).toEqual(["ui", "auth"]);
+      expect(todo.keyValues["note"]).toBe("x");
+    });
+
+    it("should serialize typed values back to text", () => {
+      const list = new TodoList(line, { schema });
+      const todo = list.todos[0];
+      todo.set("estimate", 150);
+      todo.set("billable", false);
+      todo.set("tags", ["ui"]);
+
+      expect(todo.toString()).toBe(
+        "Fix login estimate:2h30m points:3 cost:12.5 billable:false start:2024-05-01 status:blocked tags:ui link:https://example.com/42 note:x"
+      );
+      expect(todo.toString({ lossless: true })).toBe(
+        "Fix login estimate:2h30m points:3 cost:12.5 billable:false start:2024-05-01 status:blocked tags:ui link:https://example.com/42 note:x"
+      );
+      expect(todo.clone().toString()).toBe(todo.toString());
+    });
+
+    it("should report values that do not match their type", () => {
+      expect(() => new TodoList("Task points:many", { schema })).toThrow(
+        TodoParsingError
+      );
+
+      const list = new TodoList();
+      const diagnostics = list.parse("Task points:many status:later", {
+        schema,
+        recover: true,
+      });
+      expect(diagnostics.map((d) => d.message)).toEqual([
+        "Validation failed for key 'points' with value 'many'",
+        "Validation failed for key 'status' with value 'later'",
+      ]);
+      expect(list.todos[0].keyValues["points"]).toBe("many");
+      expect(list.todos[0].toString()).toBe("Task points:many status:later");
+    });
+
+    it("should let custom key handlers take precedence", () => {
+      const list = new TodoList();
+      list.parse("Task points:3", {
+        schema,
+        customKeyHandlers: [{ key: "points", transform: (v) => `#${v}` }],
+      });
+      expect(list.todos[0].keyValues["points"]).toBe("#3");
+    });
+
+    it("should format transformed dates without a schema", () => {
+      const list = new TodoList();
+      list.parse("Task start:2024-05-01", {
+        customKeyHandlers: [{ key: "start", transform: (v) => new Date(v) }],
+      });
+      list.todos[0].setDescription("Task moved");
+      expect(list.todos[0].toString()).toBe("Task moved start:2024-05-01");
+    });
+
+    it("should type values by the schema", () => {
+      const list = new TodoList("Task estimate:1h", { schema });
+      const estimate: number | undefined = list.todos[0].get("estimate");
+      expect(estimate).toBe(60);
+
+      // @ts-expect-error estimates are numbers
+      list.todos[0].set("estimate", "2h");
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { Scanner } from "../src/Scanner";
 import { Parser, ParserOptions, KeyHandler } from "../src/Parser";
 import { TodoParsingError } from "../src/TodoParsingError";
 import { Token, TokenType } from "../src/Token";
+import { Todo } from "../src/Todo";
 
 describe("Parser Advanced Features", () => {
   let scanner: Scanner;
@@ -42,6 +43,30 @@ describe("Parser Advanced Features", () => {
         expect(Array.isArray(todo.keyValues["due"])).toBe(true);
         expect(todo.keyValues["due"]).toEqual(["2023-04-01", "2023-05-01"]);
       });
+
+      it("should write merged values back as separate pairs", () => {
+        const parse = (line: string) =>
+          new Parser(scanner.scan(line), {
+            duplicateKeyBehavior: "merge",
+          }).parseTodo();
+
+        const line = "Todo tag:a +project tag:b";
+        const todo = parse(line);
+        expect(todo.getKeyValues("tag")).toEqual(["a", "b"]);
+        expect(todo.toString()).toBe("Todo +project tag:a tag:b");
+        expect(parse(todo.toString()).toString()).toBe(todo.toString());
+        expect(todo.toString({ lossless: true })).toBe(line);
+
+        // Changed values stay at the positions of the keys in the source
+        todo.addKeyValue("tag", "c");
+        expect(todo.toString({ lossless: true })).toBe(
+          "Todo tag:a +project tag:b tag:c"
+        );
+        todo.removeKeyValue("tag", "a");
+        expect(todo.toString({ lossless: true })).toBe(
+          "Todo tag:b +project tag:c"
+        );
+      });
     });
 
     describe("Custom Key Handlers", () => {
@@ -165,6 +190,98 @@ describe("Parser Advanced Features", () => {
   });
 
   describe("Error Handling", () => {
+    it("should report the token index of errors", () => {
+      const tokens = scanner.scan("Todo due:2023-04-01 due:2023-05-01");
+      const parser = new Parser(tokens, { duplicateKeyBehavior: "error" });
+
+      try {
+        parser.parseTodo();
+        throw new Error("expected a TodoParsingError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(TodoParsingError);
+        expect((error as TodoParsingError).tokenIndex).toBe(3);
+      }
+    });
+
+    it("should collect errors instead of throwing in recovering mode", () => {
+      const tokens = scanner.scan("Todo due:01-04-2023 est:abc est:5 tag:");
+      const parser = new Parser(tokens, {
+        recover: true,
+        duplicateKeyBehavior: "error",
+        customKeyHandlers: [
+          {
+            key: "due",
+            validate: (value) => /^\d{4}-\d{2}-\d{2}$/.test(value),
+          },
+          {
+            key: "est",
+            transform: (value) => {
+              if (isNaN(Number(value))) throw new Error("not a number");
+              return Number(value);
+            },
+          },
+        ],
+      });
+
+      const todo = parser.parseTodo();
+      expect(todo.keyValues["due"]).toBe("01-04-2023");
+      expect(todo.keyValues["est"]).toBe("abc");
+      expect(todo.description).toBe("Todo est:5 tag:");
+
+      const errors = parser.getErrors();
+      expect(errors.map((e) => [e.tokenIndex, e.severity])).toEqual([
+        [1, "error"],
+        [3, "error"],
+        [5, "error"],
+        [7, "warning"],
+      ]);
+      expect(errors[0].message).toMatch(/Validation failed/);
+      expect(errors[1].message).toMatch(/Transformation failed.*not a number/);
+      expect(errors[2].message).toMatch(/Duplicate key/);
+    });
+
+    it("should keep the text of a duplicate key in recovering mode", () => {
+      const options = {
+        recover: true,
+        duplicateKeyBehavior: "error" as const,
+      };
+      const parser = new Parser(scanner.scan("dup:a dup:b"), options);
+      const todo = parser.parseTodo();
+
+      expect(parser.getErrors()).toHaveLength(1);
+      expect(todo.keyValues["dup"]).toBe("a");
+      expect(todo.toString()).toBe("dup:b dup:a");
+
+      const again = new Parser(scanner.scan(todo.toString()), options);
+      expect(again.parseTodo().toString()).toBe("dup:a dup:b");
+    });
+
+    it("should report validators that throw in recovering mode", () => {
+      const handlers = [
+        {
+          key: "due",
+          validate: (value: string) => {
+            if (value === "never") throw new Error("no such date");
+            return true;
+          },
+        },
+      ];
+      const tokens = scanner.scan("Todo due:never");
+
+      const parser = new Parser(tokens, {
+        recover: true,
+        customKeyHandlers: handlers,
+      });
+      expect(parser.parseTodo().keyValues["due"]).toBe("never");
+      expect(parser.getErrors().map((e) => e.message)).toEqual([
+        "Validation failed for key 'due' with value 'never': no such date",
+      ]);
+
+      expect(() =>
+        new Parser(tokens, { customKeyHandlers: handlers }).parseTodo()
+      ).toThrow("no such date");
+    });
+
     it("should handle malformed token sequences gracefully", () => {
       // Try some unusual but valid token sequences
       const tokens = scanner.scan(
@@ -178,4 +295,212 @@ describe("Parser Advanced Features", () => {
       expect(todo.projects).toHaveLength(2);
     });
   });
+
+  describe("Key Grammar", () => {
+    it("should keep pairs with keys outside its grammar as text", () => {
+      const spec = { keyPattern: Scanner.KEY_PATTERNS.spec };
+      const tokens = new Scanner(spec).scan("Ship v1 build.id:42");
+
+      const strict = new Parser(tokens).parseTodo();
+      expect(strict.keyValues).toEqual({});
+      expect(strict.description).toBe("Ship v1 build.id:42");
+
+      const lenient = new Parser(tokens, spec).parseTodo();
+      expect(lenient.keyValues).toEqual({ "build.id": "42" });
+      lenient.setKeyValue("build.id", "43");
+      expect(lenient.toString()).toBe("Ship v1 build.id:43");
+    });
+  });
+
+  describe("Custom Tags", () => {
+    it("should collect custom tokens as tags and keep them in the line", () => {
+      const custom = new Scanner({
+        rules: [
+          { type: "hashtag", match: /^#\w+$/ },
+          { type: "assignee", match: /^&\w+$/ },
+        ],
+      });
+      const line = "Review  #docs PR &alice #urgent due:2026-01-10";
+      const todo = new Parser(custom.scan(line)).parseTodo();
+
+      expect(todo.tags).toEqual({
+        hashtag: ["#docs", "#urgent"],
+        assignee: ["&alice"],
+      });
+      expect(todo.description).toBe("Review #docs PR &alice #urgent");
+      expect(todo.toString()).toBe(
+        "Review #docs PR &alice #urgent due:2026-01-10"
+      );
+      expect(todo.toString({ lossless: true })).toBe(line);
+    });
+  });
+
+  describe("Completed Priority", () => {
+    const parse = (line: string, options?: ParserOptions) =>
+      new Parser(scanner.scan(line), options).parseTodo();
+
+    it("should keep a priority after the completion marker by default", () => {
+      const todo = parse("x (A) 2026-01-01 Pay rent");
+      expect(todo.completed).toBe(true);
+      expect(todo.priority).toBe("(A)");
+      expect(todo.completionDate).toBe("2026-01-01");
+      expect(todo.toString()).toBe("x (A) 2026-01-01 Pay rent");
+    });
+
+    it("should convert or drop a legacy completed priority", () => {
+      const converted = parse("x (A) 2026-01-01 Pay rent", {
+        completedPriority: "pri",
+      });
+      expect(converted.priority).toBeUndefined();
+      expect(converted.toString({ lossless: true })).toBe(
+        "x 2026-01-01 Pay rent pri:A"
+      );
+
+      const dropped = parse("x (A) 2026-01-01 Pay rent", {
+        completedPriority: "drop",
+      });
+      expect(dropped.toString({ lossless: true })).toBe(
+        "x 2026-01-01 Pay rent"
+      );
+    });
+
+    it("should restore the priority of the pri: form", () => {
+      const todo = parse("x 2026-01-01 Pay rent pri:A", {
+        completedPriority: "pri",
+      });
+      todo.markIncomplete();
+      expect(todo.toString()).toBe("(A) Pay rent");
+    });
+  });
+
+  describe("Invalid Dates", () => {
+    const line = "x 2024-02-29 2023-02-29 Pay rent due:2026-13-45 t:2024-04-31";
+
+    it("should keep invalid dates as text and warn about date keys by default", () => {
+      const parser = new Parser(scanner.scan(line));
+      const todo = parser.parseTodo();
+
+      expect(todo.completionDate).toBe("2024-02-29");
+      expect(todo.creationDate).toBeUndefined();
+      expect(todo.keyValues).toEqual({});
+      expect(todo.description).toBe(
+        "2023-02-29 Pay rent due:2026-13-45 t:2024-04-31"
+      );
+      expect(todo.daysUntilDue()).toBeUndefined();
+      expect(parser.getErrors().map((e) => [e.tokenIndex, e.severity])).toEqual(
+        [
+          [6, "warning"],
+          [8, "warning"],
+        ]
+      );
+    });
+
+    it("should report invalid dates as warnings", () => {
+      const parser = new Parser(scanner.scan(line), {
+        invalidDates: "diagnostic",
+      });
+      parser.parseTodo();
+
+      const errors = parser.getErrors();
+      expect(errors.map((e) => [e.tokenIndex, e.severity])).toEqual([
+        [2, "warning"],
+        [6, "warning"],
+        [8, "warning"],
+      ]);
+      expect(errors[0].message).toBe("Invalid date '2023-02-29'");
+    });
+
+    it("should fail on invalid dates unless recovering", () => {
+      expect(() =>
+        new Parser(scanner.scan(line), { invalidDates: "error" }).parseTodo()
+      ).toThrow("Invalid date '2023-02-29'");
+
+      const parser = new Parser(scanner.scan(line), {
+        invalidDates: "error",
+        recover: true,
+      });
+      expect(parser.parseTodo().completionDate).toBe("2024-02-29");
+      expect(parser.getErrors().map((e) => e.severity)).toEqual([
+        "error",
+        "error",
+        "error",
+      ]);
+    });
+
+    it("should validate the values of configured date keys", () => {
+      const parser = new Parser(
+        scanner.scan("Plan trip start:2026-02-30 due:2026-03-01 t:-3d"),
+        { invalidDates: "diagnostic", dateKeys: ["start", "due", "t"] }
+      );
+      const todo = parser.parseTodo();
+
+      expect(todo.keyValues).toEqual({ due: "2026-03-01", t: "-3d" });
+      expect(parser.getErrors().map((e) => e.tokenIndex)).toEqual([3]);
+    });
+  });
+
+  describe("Lossless Output", () => {
+    const parse = (line: string, options?: ParserOptions) =>
+      new Parser(scanner.scan(line), options).parseTodo();
+
+    it("should separate a new header from a line that had none", () => {
+      const completed = parse("buy milk @store");
+      completed.markCompleted("2026-02-02");
+      expect(completed.toString({ lossless: true })).toBe(
+        "x 2026-02-02 buy milk @store"
+      );
+
+      const prioritized = parse("  buy milk @store");
+      prioritized.setPriority("A");
+      expect(prioritized.toString({ lossless: true })).toBe(
+        "  (A) buy milk @store"
+      );
+    });
+
+    it("should keep pairs that stayed description text", () => {
+      const todo = parse("fix due:2026-13-45 thing");
+      todo.markCompleted("2026-02-02");
+      expect(todo.toString({ lossless: true })).toBe(
+        "x 2026-02-02 fix due:2026-13-45 thing"
+      );
+
+      const mixed = parse("call due:2026-13-45 mom due:2026-03-01 1x:2");
+      mixed.setDueDate("2026-03-05");
+      expect(mixed.toString({ lossless: true })).toBe(
+        "call due:2026-13-45 mom due:2026-03-05 1x:2"
+      );
+    });
+
+    it("should write added and removed tags", () => {
+      const custom = new Scanner({
+        rules: [{ type: "hashtag", match: /^#\w+$/ }],
+      });
+      const line = "Review  +docs @work #urgent";
+      const edit = (mutate: (todo: Todo) => void) => {
+        const todo = new Parser(custom.scan(line)).parseTodo();
+        mutate(todo);
+        expect(todo.isModified()).toBe(true);
+        return todo.toString({ lossless: true });
+      };
+
+      expect(edit((todo) => todo.addProject("site"))).toBe(
+        "Review  +docs @work #urgent +site"
+      );
+      expect(edit((todo) => todo.removeProject("docs"))).toBe(
+        "Review @work #urgent"
+      );
+      expect(edit((todo) => todo.addContext("home"))).toBe(
+        "Review  +docs @work #urgent @home"
+      );
+      expect(edit((todo) => todo.removeContext("work"))).toBe(
+        "Review  +docs #urgent"
+      );
+      expect(edit((todo) => todo.addTag("hashtag", "#later"))).toBe(
+        "Review  +docs @work #urgent #later"
+      );
+      expect(edit((todo) => todo.removeTag("hashtag", "#urgent"))).toBe(
+        "Review  +docs @work"
+      );
+    });
+  });
 });
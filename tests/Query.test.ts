@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { Query } from "../src/Query";
+import { QueryScanner } from "../src/QueryScanner";
+import { QueryParser } from "../src/QueryParser";
+import { QueryTokenType } from "../src/QueryToken";
+import { QuerySyntaxError } from "../src/QuerySyntaxError";
+import { TodoList } from "../src/TodoList";
+import { Scanner } from "../src/Scanner";
+
+describe("Query Language", () => {
+  const TODAY = "2026-10-19";
+  let todoList: TodoList;
+
+  // Descriptions without their project and context tags
+  const descriptions = (query: string) =>
+    todoList
+      .filter(query, { today: TODAY })
+      .map((t) => t.description.replace(/ [+@]\S+/g, ""));
+
+  beforeEach(() => {
+    todoList = new TodoList(
+      [
+        "(A) Send invoice +work @computer due:2026-10-20",
+        "(C) Call client +work @phone due:2026-10-25 est:30",
+        "(B) Fix bike @home due:2026-10-10 est:120",
+        "Water plants @home",
+        "x 2026-10-18 File taxes +home due:2026-10-15",
+      ].join("\n")
+    );
+  });
+
+  describe("Scanning", () => {
+    it("should recognize all token types", () => {
+      const tokens = new QueryScanner().scan(
+        '(+work OR @home) AND NOT -due:<today "two words" text'
+      );
+
+      expect(tokens.map((t) => t.type)).toEqual([
+        QueryTokenType.LPAREN,
+        QueryTokenType.PROJECT,
+        QueryTokenType.OR,
+        QueryTokenType.CONTEXT,
+        QueryTokenType.RPAREN,
+        QueryTokenType.AND,
+        QueryTokenType.NOT,
+        QueryTokenType.NOT,
+        QueryTokenType.KEY_VALUE,
+        QueryTokenType.TEXT,
+        QueryTokenType.WORD,
+      ]);
+      expect(tokens[9].value).toBe("two words");
+      expect(tokens[8].position).toBe(26);
+    });
+
+    it("should recognize keys by the key pattern", () => {
+      const types = (query: string, scanner?: QueryScanner) =>
+        (scanner ?? new QueryScanner()).scan(query).map((t) => t.type);
+
+      expect(types("due_time:10 fällig:today h1:x")).toEqual([
+        QueryTokenType.KEY_VALUE,
+        QueryTokenType.KEY_VALUE,
+        QueryTokenType.KEY_VALUE,
+      ]);
+      const ascii = new QueryScanner({
+        keyPattern: Scanner.KEY_PATTERNS.ascii,
+      });
+      expect(types("due_time:10 due:today", ascii)).toEqual([
+        QueryTokenType.WORD,
+        QueryTokenType.KEY_VALUE,
+      ]);
+    });
+
+    it("should match keys of the list's key pattern", () => {
+      const list = new TodoList(
+        "Call mom due_time:10\nPay rent fällig:2026-11-01"
+      );
+      expect(list.filter("due_time:10").map((t) => t.description)).toEqual([
+        "Call mom",
+      ]);
+      expect(list.filter("fällig:*").map((t) => t.description)).toEqual([
+        "Pay rent",
+      ]);
+    });
+
+    it("should report unterminated quotes", () => {
+      expect(() => new QueryScanner().scan('call "mom')).toThrow(
+        QuerySyntaxError
+      );
+    });
+  });
+
+  describe("Parsing", () => {
+    it("should give AND precedence over OR", () => {
+      const tokens = new QueryScanner().scan("+a @b OR @c");
+      expect(new QueryParser(tokens).parseQuery()).toEqual({
+        type: "or",
+        children: [
+          {
+            type: "and",
+            children: [
+              { type: "project", value: "+a" },
+              { type: "context", value: "@b" },
+            ],
+          },
+          { type: "context", value: "@c" },
+        ],
+      });
+    });
+
+    it("should parse comparison operators", () => {
+      const parse = (query: string) =>
+        new QueryParser(new QueryScanner().scan(query)).parseQuery();
+
+      expect(parse("due:<=today")).toMatchObject({
+        key: "due",
+        operator: "<=",
+        value: "today",
+      });
+      expect(parse("pri:A..C")).toMatchObject({
+        operator: "range",
+        value: "A",
+        upper: "C",
+      });
+      expect(parse("due:*")).toMatchObject({ operator: "exists" });
+    });
+
+    it("should report syntax errors with their position", () => {
+      try {
+        new Query("+work OR (@home");
+        throw new Error("expected a QuerySyntaxError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(QuerySyntaxError);
+        expect((error as QuerySyntaxError).position).toBe(9);
+      }
+      expect(() => new Query("due:<")).toThrow(/Missing value/);
+      expect(() => new Query("+work OR")).toThrow(/Unexpected end/);
+    });
+  });
+
+  describe("Matching", () => {
+    it("should combine projects, contexts and negation", () => {
+      expect(descriptions("+work -@phone")).toEqual(["Send invoice"]);
+      expect(descriptions("@home OR +work")).toHaveLength(4);
+      expect(descriptions("NOT (@home OR +work)")).toEqual(["File taxes"]);
+    });
+
+    it("should match free text case-insensitively", () => {
+      expect(descriptions("invoice")).toEqual(["Send invoice"]);
+      expect(descriptions('"fix BIKE"')).toEqual(["Fix bike"]);
+    });
+
+    it("should compare dates, numbers and priorities", () => {
+      expect(descriptions("due:<2026-10-16")).toEqual([
+        "Fix bike",
+        "File taxes",
+      ]);
+      expect(descriptions("est:>=100")).toEqual(["Fix bike"]);
+      expect(descriptions("pri:a..b")).toEqual(["Send invoice", "Fix bike"]);
+      expect(descriptions("due:* -is:done")).toHaveLength(3);
+    });
+
+    it("should resolve relative dates", () => {
+      expect(descriptions("due:today+1")).toEqual(["Send invoice"]);
+      expect(descriptions("due:today..today+1w")).toEqual([
+        "Send invoice",
+        "Call client",
+      ]);
+      expect(descriptions("is:overdue")).toEqual(["Fix bike"]);
+      expect(descriptions("completed:yesterday")).toEqual(["File taxes"]);
+      expect(descriptions("due:<fri")).toEqual([
+        "Send invoice",
+        "Fix bike",
+        "File taxes",
+      ]);
+      expect(descriptions("due:fri..eom")).toEqual(["Call client"]);
+      expect(
+        new TodoList("Plan trip day:mon").filter("day:mon", { today: TODAY })
+      ).toHaveLength(1);
+    });
+
+    it("should match everything for an empty query", () => {
+      expect(descriptions("")).toHaveLength(5);
+    });
+
+    it("should be reusable as a predicate", () => {
+      const query = new Query("@home is:open", { today: TODAY });
+      const todos = todoList.getTodos();
+
+      expect(todos.filter(query.toPredicate())).toHaveLength(2);
+      expect(todoList.filter(query)).toHaveLength(2);
+      expect(query.matches(todos[0])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "@jest/globals";
+import { Recurrence, Todo } from "../src/index";
+
+describe("Recurrence", () => {
+  const next = (rule: string, date: string) =>
+    Recurrence.parse(rule)!.next(date);
+
+  describe("Encoding", () => {
+    it("should parse and serialize rules", () => {
+      for (const rule of [
+        "1d",
+        "+5b",
+        "2w/mo,th",
+        "1m/-1",
+        "1m/15",
+        "+1m/2tu",
+        "3m/-1fr",
+        "1y",
+      ]) {
+        expect(Recurrence.parse(rule)?.toString()).toBe(rule);
+      }
+      expect(Recurrence.parse("1w/th,mo")?.pattern).toEqual({
+        type: "weekly",
+        interval: 1,
+        weekdays: [1, 4],
+      });
+      expect(Recurrence.parse("1m/-1fr")?.pattern.nthWeekday).toEqual({
+        n: -1,
+        weekday: 5,
+      });
+    });
+
+    it("should reject invalid rules", () => {
+      for (const rule of [
+        "0d",
+        "1d/mo",
+        "1w/xx",
+        "1m/32",
+        "1m/6tu",
+        "1y/1",
+        "w",
+      ]) {
+        expect(Recurrence.parse(rule)).toBeUndefined();
+      }
+    });
+  });
+
+  describe("Next Occurrence", () => {
+    it("should recur on specific weekdays", () => {
+      // 2023-04-10 is a Monday
+      expect(next("1w/mo,th", "2023-04-10")).toBe("2023-04-13");
+      expect(next("1w/mo,th", "2023-04-13")).toBe("2023-04-17");
+      expect(next("2w/mo,th", "2023-04-13")).toBe("2023-04-24");
+    });
+
+    it("should clamp monthly and yearly recurrence at the end of the month", () => {
+      expect(next("1m", "2023-01-31")).toBe("2023-02-28");
+      expect(next("1m", "2024-01-31")).toBe("2024-02-29");
+      expect(next("1m/31", "2023-02-28")).toBe("2023-03-31");
+      expect(next("1y", "2024-02-29")).toBe("2025-02-28");
+      expect(next("1m", "2023-11-15")).toBe("2023-12-15");
+      expect(next("2m", "2023-12-15")).toBe("2024-02-15");
+    });
+
+    it("should return to the original day after clamping", () => {
+      expect(next("1m", "2023-02-28")).toBe("2023-03-28");
+      expect(Recurrence.parse("1m")!.next("2023-02-28", 31)).toBe("2023-03-31");
+      expect(Recurrence.parse("1m")!.occurrences("2023-01-31", 3)).toEqual([
+        "2023-02-28",
+        "2023-03-31",
+        "2023-04-30",
+      ]);
+
+      const todo = new Todo({
+        description: "Pay rent",
+        keyValues: { due: "2023-01-31", rec: "+1m" },
+      });
+      const february = todo.generateRecurringTodo("2023-02-01")!;
+      const march = february.generateRecurringTodo("2023-03-01")!;
+
+      expect(february.getDueDate()).toBe("2023-02-28");
+      expect(february.keyValues["rec"]).toBe("+1m/31");
+      expect(march.getDueDate()).toBe("2023-03-31");
+      expect(todo.getNextOccurrences(2)).toEqual(["2023-02-28", "2023-03-31"]);
+    });
+
+    it("should recur on the last day of the month", () => {
+      expect(next("1m/-1", "2023-01-15")).toBe("2023-01-31");
+      expect(next("1m/-1", "2023-01-31")).toBe("2023-02-28");
+    });
+
+    it("should recur on the nth weekday of the month", () => {
+      expect(next("1m/2tu", "2023-04-01")).toBe("2023-04-11");
+      expect(next("1m/2tu", "2023-04-11")).toBe("2023-05-09");
+      expect(next("1m/-1fr", "2023-04-28")).toBe("2023-05-26");
+      // April 2023 has no fifth Monday, so the last one is used
+      expect(next("1m/5mo", "2023-03-31")).toBe("2023-04-24");
+    });
+
+    it("should list the next occurrences", () => {
+      expect(Recurrence.parse("1m/-1")!.occurrences("2023-01-31", 3)).toEqual([
+        "2023-02-28",
+        "2023-03-31",
+        "2023-04-30",
+      ]);
+      expect(
+        Recurrence.parse("1w")!.occurrences("2023-04-01", 5, "2023-04-20")
+      ).toEqual(["2023-04-08", "2023-04-15"]);
+    });
+  });
+
+  describe("Stop Conditions", () => {
+    it("should stop after the until date", () => {
+      const todo = new Todo({
+        description: "Standup",
+        keyValues: { due: "2023-04-13", rec: "+1w/mo,th", until: "2023-04-17" },
+      });
+
+      const next = todo.generateRecurringTodo();
+      expect(next?.getDueDate()).toBe("2023-04-17");
+      expect(next?.generateRecurringTodo()).toBeUndefined();
+      expect(todo.getNextOccurrences(5)).toEqual(["2023-04-17"]);
+    });
+
+    it("should count down the remaining occurrences", () => {
+      const todo = new Todo({
+        description: "Physio",
+        keyValues: { due: "2023-04-10", rec: "+1w", count: "2" },
+      });
+
+      const next = todo.generateRecurringTodo();
+      expect(next?.keyValues["count"]).toBe("1");
+      expect(next?.generateRecurringTodo()).toBeUndefined();
+      expect(todo.getNextOccurrences(5)).toEqual(["2023-04-17"]);
+    });
+  });
+});
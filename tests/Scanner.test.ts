@@ -93,6 +93,11 @@ describe("Scanner Features", () => {
       const tokens2 = scanner.scan("x (A) Todo");
       expect(tokens2[1].type).toBe(TokenType.PRIORITY);
 
+      // Values of key-value pairs are never part of the header
+      const tokens4 = scanner.scan("x prio:(A) Todo");
+      expect(tokens4[2].type).toBe(TokenType.WORD);
+      expect(scanner.scan("done:x Todo")[1].type).toBe(TokenType.WORD);
+
       // Priority in middle (should be a word)
       const tokens3 = scanner.scan("Todo (A) next");
       const priorityTokens = tokens3.filter(
@@ -166,5 +171,168 @@ describe("Scanner Features", () => {
       expect(tokens[2].type).toBe(TokenType.DATE);
       expect(tokens[2].value).toBe("2023-04-01");
     });
+
+    it("should only recognize dates that exist in the calendar", () => {
+      const types = (line: string) =>
+        scanner.scan(line).map((token) => token.type);
+
+      expect(types("2024-02-29 2023-02-29 2026-13-45 2026-04-31")).toEqual([
+        TokenType.DATE,
+        TokenType.WORD,
+        TokenType.WORD,
+        TokenType.WORD,
+      ]);
+      expect(types("2000-02-29 1900-02-29")).toEqual([
+        TokenType.DATE,
+        TokenType.WORD,
+      ]);
+      expect(types("due:2026-02-30")).toEqual([TokenType.KEY, TokenType.WORD]);
+    });
+  });
+
+  describe("Key Grammar", () => {
+    const keys = (line: string, custom = scanner) =>
+      custom
+        .scan(line)
+        .filter((token) => token.type === TokenType.KEY)
+        .map((token) => token.value);
+
+    it("should accept digits, dashes, underscores and Unicode letters", () => {
+      expect(
+        keys("due_time:9 x-ref:12 h1:a jira-id:ABC-1 fällig:2026-01-01")
+      ).toEqual(["due_time:", "x-ref:", "h1:", "jira-id:", "fällig:"]);
+      expect(keys("1st:place _x:1 -y:2 a.b:c")).toEqual([]);
+    });
+
+    it("should support the spec and ASCII grammars", () => {
+      const spec = new Scanner({ keyPattern: Scanner.KEY_PATTERNS.spec });
+      expect(keys("a.b:c 1st:place", spec)).toEqual(["a.b:", "1st:"]);
+
+      const ascii = new Scanner({ keyPattern: Scanner.KEY_PATTERNS.ascii });
+      expect(keys("due:x h1:a", ascii)).toEqual(["due:"]);
+    });
+  });
+
+  describe("Colon-Bearing Words", () => {
+    const words = (line: string) =>
+      scanner
+        .scan(line)
+        .filter((token) => token.type === TokenType.WORD)
+        .map((token) => token.value);
+
+    it("should keep URLs, links, emails and times as words", () => {
+      const line =
+        "See https://example.com/a?b=c mailto:bob@example.com bob@example.com at 10:30 or 9:15am in C:\\Temp";
+      const tokens = scanner.scan(line);
+
+      expect(tokens.every((token) => token.type === TokenType.WORD)).toBe(true);
+      expect(words(line)).toContain("https://example.com/a?b=c");
+      expect(words(line)).toContain("mailto:bob@example.com");
+    });
+
+    it("should still split key-value pairs with such values", () => {
+      const tokens = scanner.scan("Read url:https://example.com");
+      expect(tokens.map((token) => token.type)).toEqual([
+        TokenType.WORD,
+        TokenType.KEY,
+        TokenType.WORD,
+      ]);
+      expect(tokens[2].value).toBe("https://example.com");
+    });
+
+    it("should keep words escaped with a backslash", () => {
+      expect(words("Reply \\re:thing \\+1 \\@home")).toEqual([
+        "Reply",
+        "\\re:thing",
+        "\\+1",
+        "\\@home",
+      ]);
+    });
+
+    it("should use configured word patterns", () => {
+      const custom = new Scanner({
+        wordPatterns: [...Scanner.DEFAULT_WORD_PATTERNS, /^ticket:\d+$/],
+      });
+      expect(custom.scan("Fix ticket:42")[1].type).toBe(TokenType.WORD);
+
+      const none = new Scanner({ wordPatterns: [] });
+      expect(none.scan("https://example.com")[0].type).toBe(TokenType.KEY);
+    });
+  });
+
+  describe("Custom Token Rules", () => {
+    const hashtag = { type: "hashtag", match: /^#\w+$/ };
+
+    it("should recognize words of custom token types", () => {
+      const custom = new Scanner({
+        rules: [hashtag, { type: "estimate", match: /^~\d+[hm]$/ }],
+      });
+      const tokens = custom.scan("Fix bug #urgent ~2h +app");
+
+      expect(tokens.map((t) => [t.type, t.customType])).toEqual([
+        [TokenType.WORD, undefined],
+        [TokenType.WORD, undefined],
+        [TokenType.CUSTOM, "hashtag"],
+        [TokenType.CUSTOM, "estimate"],
+        [TokenType.PROJECT, undefined],
+      ]);
+    });
+
+    it("should only override built-in types with a priority above 0", () => {
+      const score = { type: "score", match: (word: string) => word === "+1" };
+
+      const low = new Scanner({ rules: [score] });
+      expect(low.scan("Vote +1")[1].type).toBe(TokenType.PROJECT);
+
+      const high = new Scanner({ rules: [{ ...score, priority: 1 }] });
+      expect(high.scan("Vote +1")[1].type).toBe(TokenType.CUSTOM);
+    });
+
+    it("should respect position constraints and rule order", () => {
+      const custom = new Scanner();
+      custom.addRule({ type: "ticket", match: /^#\d+$/, position: 0 });
+      custom.addRule(hashtag);
+
+      const tokens = custom.scan("#12 Fix #34");
+      expect(tokens.map((t) => t.customType)).toEqual([
+        "ticket",
+        undefined,
+        "hashtag",
+      ]);
+    });
+  });
+
+  describe("Source Positions", () => {
+    it("should record offsets and original whitespace", () => {
+      const line = "(A)  Call\tmom +Family due:2023-05-01  ";
+      const tokens = scanner.scan(line);
+
+      expect(tokens.map((t) => [t.start, t.end])).toEqual([
+        [0, 3],
+        [5, 9],
+        [10, 13],
+        [14, 21],
+        [22, 26],
+        [26, 36],
+      ]);
+      expect(tokens[1].leadingWhitespace).toBe("  ");
+      expect(tokens[2].leadingWhitespace).toBe("\t");
+      expect(tokens[5].leadingWhitespace).toBe("");
+      expect(tokens[5].trailingWhitespace).toBe("  ");
+
+      for (const token of tokens) {
+        expect(line.substring(token.start, token.end)).toBe(token.value);
+      }
+    });
+
+    it("should rebuild the exact line from its tokens", () => {
+      const line = "  x 2023-04-01   Todo  key: value\t";
+      const tokens = scanner.scan(line);
+      const rebuilt =
+        tokens.map((t) => t.leadingWhitespace + t.value).join("") +
+        tokens[tokens.length - 1].trailingWhitespace;
+
+      expect(rebuilt).toBe(line);
+    });
   });
 });
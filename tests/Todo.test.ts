@@ -1,10 +1,23 @@
-import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "@jest/globals";
 import { Todo, RecurrencePattern } from "../src/Todo";
+import { Clock } from "../src/Clock";
+import { TodoList } from "../src/TodoList";
 
 describe("Todo Features", () => {
   let todo: Todo;
   const TODAY = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
 
+  // Keep "today" in the same time zone as TODAY
+  beforeAll(() => Clock.setDefault(Clock.fixed(TODAY)));
+  afterAll(() => Clock.setDefault());
+
   beforeEach(() => {
     todo = new Todo({
       description: "Test todo",
@@ -163,6 +176,27 @@ describe("Todo Features", () => {
       expect(result2).toBe(false);
       expect(todo.completionDate).toBeUndefined();
     });
+
+    it("should move the priority to pri: on completion and restore it", () => {
+      todo.markCompleted("2023-04-01", "pri");
+      expect(todo.priority).toBeUndefined();
+      expect(todo.toString()).toBe("x 2023-04-01 Test todo pri:B");
+
+      todo.markIncomplete();
+      expect(todo.priority).toBe("(B)");
+      expect(todo.toString()).toBe("(B) Test todo");
+    });
+
+    it("should drop the priority on completion by default, or keep it", () => {
+      todo.markCompleted("2023-04-01");
+      expect(todo.priority).toBeUndefined();
+      expect(todo.toString()).toBe("x 2023-04-01 Test todo");
+
+      todo.markIncomplete();
+      todo.setPriority("B");
+      todo.markCompleted("2023-04-01", "keep");
+      expect(todo.toString()).toBe("x (B) 2023-04-01 Test todo");
+    });
   });
 
   describe("Contexts Management", () => {
@@ -274,6 +308,21 @@ describe("Todo Features", () => {
     });
   });
 
+  describe("Custom Tags", () => {
+    it("should add and remove tags of custom token types", () => {
+      todo.addTag("hashtag", "#urgent");
+      todo.addTag("hashtag", "#urgent");
+      todo.addTag("estimate", "~2h");
+      expect(todo.tags).toEqual({ hashtag: ["#urgent"], estimate: ["~2h"] });
+      expect(todo.toString()).toBe("(B) Test todo #urgent ~2h");
+
+      todo.removeTag("hashtag", "#urgent");
+      expect(todo.getTags("hashtag")).toEqual([]);
+      expect(todo.tags).toEqual({ estimate: ["~2h"] });
+      expect(todo.clone().tags).toEqual({ estimate: ["~2h"] });
+    });
+  });
+
   describe("Key-Value Management", () => {
     it("should set and get key-value pairs", () => {
       todo.setKeyValue("difficulty", "hard");
@@ -291,6 +340,37 @@ describe("Todo Features", () => {
       expect(todo.keyValues["difficulty"]).toBeUndefined();
       expect(todo.keyValues["estimate"]).toBe(2.5);
     });
+
+    it("should reject keys that could not be read back", () => {
+      expect(() => todo.setKeyValue("due time", "9")).toThrow(/Invalid key/);
+      expect(() => todo.setKeyValue("a:b", "c")).toThrow(/Invalid key/);
+      expect(() => todo.setKeyValue("", "c")).toThrow(/Invalid key/);
+      todo.setKeyValue("fällig", "2026-01-01");
+      expect(todo.toString()).toBe("(B) Test todo fällig:2026-01-01");
+
+      const spec = new Todo({
+        description: "Spec",
+        keyPattern: /^[^\s:]+$/,
+      });
+      spec.setKeyValue("a.b", "c");
+      expect(spec.clone().toString()).toBe("Spec a.b:c");
+    });
+
+    it("should add and remove values of a repeated key", () => {
+      todo.addKeyValue("tag", "a");
+      todo.addKeyValue("tag", "b");
+      todo.addKeyValue("tag", "c");
+      expect(todo.getKeyValues("tag")).toEqual(["a", "b", "c"]);
+      expect(todo.toString()).toBe("(B) Test todo tag:a tag:b tag:c");
+
+      todo.removeKeyValue("tag", "b");
+      expect(todo.getKeyValues("tag")).toEqual(["a", "c"]);
+      todo.removeKeyValue("tag", "a");
+      expect(todo.keyValues["tag"]).toBe("c");
+      todo.removeKeyValue("tag", "c");
+      expect("tag" in todo.keyValues).toBe(false);
+      expect(todo.getKeyValues("tag")).toEqual([]);
+    });
   });
 
   describe("Recurrence", () => {
@@ -322,16 +402,68 @@ describe("Todo Features", () => {
     it("should generate recurring todo with correct due date", () => {
       todo.setDueDate("2023-04-10");
       todo.setRecurrence({ type: "weekly", interval: 2 });
+      todo.markCompleted("2023-04-12");
 
       const newTodo = todo.generateRecurringTodo();
       expect(newTodo).toBeDefined();
-      expect(newTodo?.getDueDate()).toBe("2023-04-24"); // 2 weeks later
+      expect(newTodo?.getDueDate()).toBe("2023-04-26"); // 2 weeks after completion
+      expect(newTodo?.completed).toBe(false);
 
       // Should preserve other properties
       expect(newTodo?.description).toBe(todo.description);
       expect(newTodo?.priority).toBe(todo.priority);
     });
 
+    it("should parse strict and business day patterns", () => {
+      todo.setKeyValue("rec", "+1w");
+      expect(todo.getRecurrence()).toEqual({
+        type: "weekly",
+        interval: 1,
+        strict: true,
+      });
+
+      todo.setRecurrence({ type: "business", interval: 5 });
+      expect(todo.keyValues["rec"]).toBe("5b");
+
+      todo.setRecurrence({ type: "monthly", interval: 1, strict: true });
+      expect(todo.keyValues["rec"]).toBe("+1m");
+    });
+
+    it("should schedule strict recurrence from the due date", () => {
+      todo.setDueDate("2023-04-10");
+      todo.setKeyValue("rec", "+2w");
+      todo.markCompleted("2023-04-12");
+
+      expect(todo.generateRecurringTodo()?.getDueDate()).toBe("2023-04-24");
+    });
+
+    it("should skip weekends for business day recurrence", () => {
+      todo.setDueDate("2023-04-13"); // Thursday
+      todo.setKeyValue("rec", "+3b");
+
+      expect(todo.generateRecurringTodo()?.getDueDate()).toBe("2023-04-18");
+    });
+
+    it("should shift threshold and creation dates by the same offset", () => {
+      todo = new Todo({
+        description: "Water plants",
+        creationDate: "2023-04-01",
+        keyValues: { due: "2023-04-10", t: "2023-04-08", rec: "1w" },
+      });
+
+      const newTodo = todo.generateRecurringTodo("2023-04-11");
+      expect(newTodo?.getDueDate()).toBe("2023-04-18");
+      expect(newTodo?.keyValues["t"]).toBe("2023-04-16");
+      expect(newTodo?.creationDate).toBe("2023-04-09");
+    });
+
+    it("should recur on the threshold date without a due date", () => {
+      todo.setKeyValue("t", "2023-04-10");
+      todo.setKeyValue("rec", "+1m");
+
+      expect(todo.generateRecurringTodo()?.keyValues["t"]).toBe("2023-05-10");
+    });
+
     it("should not generate recurring todo without due date", () => {
       todo.setRecurrence({ type: "weekly", interval: 2 });
       const newTodo = todo.generateRecurringTodo();
@@ -345,6 +477,69 @@ describe("Todo Features", () => {
     });
   });
 
+  describe("Threshold Dates", () => {
+    it("should get and set the threshold date", () => {
+      expect(todo.getThresholdDate()).toBeUndefined();
+
+      todo.setThresholdDate("2023-04-08");
+      expect(todo.getThresholdDate()).toBe("2023-04-08");
+      expect(todo.toString()).toBe("(B) Test todo t:2023-04-08");
+
+      todo.setThresholdDate(null);
+      expect(todo.keyValues["t"]).toBeUndefined();
+    });
+
+    it("should resolve relative thresholds from the due date", () => {
+      todo.setThresholdDate("-3d");
+      expect(todo.getThresholdDate()).toBeUndefined();
+
+      todo.setDueDate("2023-04-10");
+      expect(todo.getThresholdDate()).toBe("2023-04-07");
+
+      todo.setThresholdDate("-1w");
+      expect(todo.getThresholdDate()).toBe("2023-04-03");
+    });
+
+    it("should ignore relative thresholds of todos without a valid due date", () => {
+      todo.setThresholdDate("-3d");
+      todo.setKeyValue("due", "someday");
+      expect(todo.getThresholdDate()).toBeUndefined();
+      expect(todo.isActionable("2023-04-01")).toBe(true);
+
+      todo.setKeyValue("rec", "+1w");
+      expect(todo.generateRecurringTodo()).toBeUndefined();
+      expect(todo.getNextOccurrences(3)).toEqual([]);
+
+      const list = new TodoList(
+        "Plan trip due:tomorrow t:-3d\nCall mom t:2023-04-08"
+      );
+      expect(list.getActionableTodos("2023-04-01")).toHaveLength(1);
+      expect(list.sorted("threshold")[0].description).toBe("Call mom");
+      expect(list.filter("is:future", { today: "2023-04-01" })).toHaveLength(1);
+    });
+
+    it("should be actionable once the threshold is reached", () => {
+      expect(todo.isActionable("2023-04-01")).toBe(true);
+
+      todo.setThresholdDate("2023-04-08");
+      expect(todo.isActionable("2023-04-07")).toBe(false);
+      expect(todo.isActionable("2023-04-08")).toBe(true);
+
+      todo.markCompleted("2023-04-09");
+      expect(todo.isActionable("2023-04-09")).toBe(false);
+    });
+
+    it("should keep relative thresholds when recurring", () => {
+      todo.setDueDate("2023-04-10");
+      todo.setThresholdDate("-2d");
+      todo.setKeyValue("rec", "+1w");
+
+      const next = todo.generateRecurringTodo();
+      expect(next?.keyValues["t"]).toBe("-2d");
+      expect(next?.getThresholdDate()).toBe("2023-04-15");
+    });
+  });
+
   describe("String Representation", () => {
     it("should convert todo to correct string format", () => {
       todo = new Todo({
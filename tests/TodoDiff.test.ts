@@ -0,0 +1,113 @@
+import { describe, it, expect } from "@jest/globals";
+import { TodoList, TodoDiff, Todo } from "../src/index";
+
+describe("TodoDiff", () => {
+  const before = new TodoList(
+    [
+      "(A) Call mom @phone",
+      "Buy milk @store due:2023-04-01",
+      "Pay rent +home",
+    ].join("\n")
+  );
+
+  it("should list added, removed and modified todos", () => {
+    const after = new TodoList(
+      [
+        "x 2023-04-02 Call mom @home",
+        "Buy milk @store due:2023-04-03 est:5",
+        "Walk the dog",
+      ].join("\n")
+    );
+    const diff = new TodoDiff(before, after);
+
+    expect(diff.added).toEqual([after.getTodos()[2]]);
+    expect(diff.removed).toEqual([before.getTodos()[2]]);
+    expect(diff.modified).toHaveLength(2);
+    expect(diff.modified[1]).toEqual({
+      before: before.getTodos()[1],
+      after: after.getTodos()[1],
+      changes: [
+        {
+          field: "keyValues",
+          key: "due",
+          before: "2023-04-01",
+          after: "2023-04-03",
+        },
+        { field: "keyValues", key: "est", before: undefined, after: "5" },
+      ],
+    });
+  });
+
+  it("should compare the fields of two todos", () => {
+    const changes = TodoDiff.compareTodos(
+      new Todo({
+        description: "Call mom",
+        priority: "A",
+        projects: ["a", "b"],
+      }),
+      new Todo({ description: "Call mom", projects: ["b", "a"] })
+    );
+
+    expect(changes).toEqual([
+      { field: "priority", before: "(A)", after: undefined },
+    ]);
+  });
+
+  it("should compare values structurally", () => {
+    expect(TodoDiff.valuesEqual({ a: 1, b: [2] }, { b: [2], a: 1 })).toBe(true);
+    expect(TodoDiff.valuesEqual([undefined], [null])).toBe(false);
+    expect(TodoDiff.valuesEqual({ a: undefined }, {})).toBe(false);
+    expect(
+      TodoDiff.valuesEqual(new Date("2023-04-01"), new Date("2023-04-01"))
+    ).toBe(true);
+    expect(TodoDiff.valuesEqual(new Date("2023-04-01"), {})).toBe(false);
+  });
+
+  it("should compare custom tags per token type", () => {
+    const changes = TodoDiff.compareTodos(
+      new Todo({ description: "Fix bug", tags: { hashtag: ["#a", "#b"] } }),
+      new Todo({ description: "Fix bug", tags: { hashtag: ["#b", "#c"] } })
+    );
+
+    expect(changes).toEqual([
+      {
+        field: "tags",
+        key: "hashtag",
+        before: ["#a", "#b"],
+        after: ["#b", "#c"],
+      },
+    ]);
+  });
+
+  it("should be empty for identical lists", () => {
+    const diff = new TodoDiff(before, new TodoList(before.toString()));
+
+    expect(diff.isEmpty()).toBe(true);
+    expect(diff.render()).toBe("");
+  });
+
+  it("should render a readable summary", () => {
+    const after = new TodoList(
+      [
+        "x 2023-04-02 Call mom @home",
+        "Buy milk @store due:2023-04-03",
+        "Pay rent +home",
+        "Walk the dog",
+      ].join("\n")
+    );
+
+    expect(new TodoDiff(before, after).render()).toBe(
+      [
+        "+ Walk the dog",
+        "~ x 2023-04-02 Call mom @home",
+        "    completed: false -> true",
+        "    priority: (A) -> (none)",
+        "    completion date: (none) -> 2023-04-02",
+        "    description: Call mom @phone -> Call mom @home",
+        "    contexts: added @home, removed @phone",
+        "~ Buy milk @store due:2023-04-03",
+        "    key due: 2023-04-01 -> 2023-04-03",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { TodoList, TodoHistory } from "../src/index";
+
+describe("TodoHistory", () => {
+  let todoList: TodoList;
+  let history: TodoHistory;
+
+  const lines = () => todoList.toString().split("\n");
+
+  beforeEach(() => {
+    todoList = new TodoList("(B) Call mom @phone\n(A) Buy milk due:2023-04-01");
+    history = new TodoHistory(todoList);
+  });
+
+  it("should undo and redo adding and deleting todos", () => {
+    todoList.addTodo("Walk the dog");
+    todoList.deleteTodo(todoList.getTodos()[0]);
+    expect(lines()).toEqual(["(A) Buy milk due:2023-04-01", "Walk the dog"]);
+
+    history.undo();
+    expect(lines()).toEqual([
+      "(B) Call mom @phone",
+      "(A) Buy milk due:2023-04-01",
+      "Walk the dog",
+    ]);
+    history.undo();
+    expect(lines()).toHaveLength(2);
+    expect(history.canUndo).toBe(false);
+
+    history.redo();
+    history.redo();
+    expect(lines()).toEqual(["(A) Buy milk due:2023-04-01", "Walk the dog"]);
+    expect(history.canRedo).toBe(false);
+  });
+
+  it("should undo changes made directly on a todo", () => {
+    const todo = todoList.getTodos()[0];
+    todo.addProject("+family");
+    todo.markCompleted("2023-04-02");
+
+    history.undo();
+    expect(todo.completed).toBe(false);
+    expect(todo.projects).toEqual(["+family"]);
+
+    history.undo();
+    expect(todo.toString()).toBe("(B) Call mom @phone");
+
+    history.redo();
+    history.redo();
+    expect(todo.toString()).toBe("x 2023-04-02 Call mom @phone +family");
+  });
+
+  it("should undo sorting and parsing", () => {
+    const [first, second] = todoList.getTodos();
+    todoList.sortBy("priority");
+    expect(todoList.getTodos()).toEqual([second, first]);
+
+    todoList.parse("Something else");
+    history.undo();
+    expect(todoList.getTodos()).toEqual([second, first]);
+
+    history.undo();
+    expect(todoList.getTodos()).toEqual([first, second]);
+  });
+
+  it("should undo a group of changes as one step", () => {
+    history.group(() => {
+      todoList.addTodo("Walk the dog");
+      todoList.getTodos()[0].setPriority("C");
+      todoList.deleteTodo(todoList.getTodos()[1]);
+    });
+
+    history.undo();
+    expect(lines()).toEqual([
+      "(B) Call mom @phone",
+      "(A) Buy milk due:2023-04-01",
+    ]);
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("should clear the redo stack on a new change", () => {
+    todoList.addTodo("Walk the dog");
+    history.undo();
+    todoList.addTodo("Feed the cat");
+
+    expect(history.canRedo).toBe(false);
+    expect(history.redo()).toBe(false);
+  });
+
+  it("should keep at most the configured number of steps", () => {
+    history.dispose();
+    history = new TodoHistory(todoList, { limit: 2 });
+
+    todoList.addTodo("One");
+    todoList.addTodo("Two");
+    todoList.addTodo("Three");
+
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(lines()).toHaveLength(3);
+  });
+});
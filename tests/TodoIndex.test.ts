@@ -0,0 +1,250 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  TodoIndex,
+  TodoList,
+  Todo,
+  Clock,
+  KeySchema,
+  KeyTypes,
+} from "../src/index";
+
+describe("TodoIndex", () => {
+  const todos = [
+    new Todo({ description: "Pay rent", keyValues: { due: "2026-03-05" } }),
+    new Todo({ description: "Call mom", keyValues: { due: "2026-03-01" } }),
+    new Todo({ description: "Buy milk", projects: ["+home"] }),
+  ];
+
+  it("should return todos in list order", () => {
+    const index = new TodoIndex(() => todos);
+    index.reset(todos);
+
+    expect(index.getDueBetween()).toEqual([todos[0], todos[1]]);
+    expect(index.getDueBetween("2026-03-02", "2026-03-05")).toEqual([todos[0]]);
+    expect(index.getDueBefore("2026-03-05")).toEqual([todos[1]]);
+  });
+
+  it("should follow changes reported by its owner", () => {
+    const list = [...todos];
+    const index = new TodoIndex(() => list);
+    list.forEach((todo) => index.add(todo));
+
+    const todo = new Todo({ description: "Water plants", projects: ["+home"] });
+    list.unshift(todo);
+    index.add(todo);
+    index.moved();
+    expect(index.getByProject("+home")).toEqual([todo, todos[2]]);
+
+    todo.removeProject("+home");
+    index.update(todo);
+    index.remove(todos[2]);
+    expect(index.getByProject("+home")).toEqual([]);
+    expect(index.getProjects()).toEqual([]);
+  });
+
+  it("should not scan the list again after inserts and removals", () => {
+    const list = [...todos];
+    let scans = 0;
+    const index = new TodoIndex(() => {
+      scans++;
+      return list;
+    });
+    index.reset(list);
+    expect(index.getDueBetween()).toEqual([todos[0], todos[1]]);
+
+    const todo = new Todo({
+      description: "Water plants",
+      keyValues: { due: "2026-03-03" },
+    });
+    list.splice(1, 0, todo);
+    index.add(todo);
+    index.inserted(todo, 1);
+    list.splice(0, 1);
+    index.remove(todos[0]);
+
+    const count = scans;
+    expect(index.getDueBetween()).toEqual([todo, todos[1]]);
+    expect(scans).toBe(count);
+  });
+});
+
+describe("TodoList indexed lookups", () => {
+  const clock = Clock.fixed("2026-03-10");
+
+  // The lookups of the list, and the same lookups as scans of all todos
+  const lookups = (list: TodoList) => ({
+    projects: list.getProjects(),
+    contexts: list.getContexts(),
+    keys: list.getKeyNames(),
+    home: list.getTodosByProject("+home"),
+    phone: list.getTodosByContext("@phone"),
+    tagged: list.getTodosByKeyValue("tag", "a"),
+    first: list.getTodo(list.todos[0]?.id ?? ""),
+    dueToday: list.getDueTodayTodos(),
+    overdue: list.getOverdueTodos(),
+    nextWeek: list.getDueInNextNDaysTodos(7),
+    march: list.getTodosDueBetween("2026-03-01", "2026-03-31"),
+  });
+  const scans = (list: TodoList) => {
+    const names = (values: (todo: Todo) => readonly string[]) =>
+      Array.from(new Set(list.todos.flatMap(values))).sort();
+    const due = (todo: Todo) => todo.keyValues["due"];
+    return {
+      projects: names((todo) => todo.projects),
+      contexts: names((todo) => todo.contexts),
+      keys: names((todo) => Object.keys(todo.keyValues)),
+      home: list.todos.filter((todo) => todo.projects.includes("+home")),
+      phone: list.todos.filter((todo) => todo.contexts.includes("@phone")),
+      tagged: list.todos.filter((todo) =>
+        todo.getKeyValues("tag").includes("a")
+      ),
+      first: list.todos[0],
+      dueToday: list.todos.filter((todo) => todo.isDueToday("2026-03-10")),
+      overdue: list.todos.filter((todo) => todo.isOverdue("2026-03-10")),
+      nextWeek: list.todos.filter(
+        (todo) => due(todo) && due(todo) <= "2026-03-17" && !todo.completed
+      ),
+      march: list.todos.filter(
+        (todo) => due(todo) >= "2026-03-01" && due(todo) <= "2026-03-31"
+      ),
+    };
+  };
+
+  it("should give the same results as scanning the list while it changes", () => {
+    const text = [
+      "(A) Call mom @phone due:2026-03-10",
+      "Pay rent +home due:2026-03-01 tag:a",
+      "x 2026-03-02 Fix sink +home due:2026-03-02",
+      "Plan trip due:2026-04-01 tag:a tag:b",
+      "Water plants +home rec:1w due:2026-03-12",
+    ].join("\n");
+    const list = new TodoList(text, { clock });
+    const steps: [string, () => void][] = [
+      ["parse", () => {}],
+      ["add", () => list.addTodo("Email bank @phone due:2026-03-09")],
+      [
+        "insert",
+        () =>
+          list.insertTodo(
+            new Todo({ description: "Buy milk", projects: ["+home"] }),
+            0
+          ),
+      ],
+      ["change", () => list.todos[1].addProject("+home")],
+      ["due", () => list.todos[2].setDueDate("2026-03-15")],
+      ["key", () => list.todos[3].removeKeyValue("tag", "a")],
+      ["delete", () => list.deleteTodo(list.todos[4])],
+      ["sort", () => list.sortBy("due")],
+      ["complete", () => list.complete(list.getTodosByProject("+home")[0])],
+      [
+        "edit",
+        () => {
+          const todo = list.todos[0].clone({ keepId: true });
+          todo.addContext("@phone");
+          list.editTodo(todo);
+        },
+      ],
+      ["reparse", () => list.parse(list.toString())],
+      [
+        "text edit",
+        () => {
+          const from = list.toString().indexOf("\n");
+          list.applyTextEdit({ from, to: from, text: "\nNew +home tag:a" });
+        },
+      ],
+    ];
+
+    for (const [step, change] of steps) {
+      change();
+      expect({ step, ...lookups(list) }).toEqual({ step, ...scans(list) });
+    }
+  });
+
+  it("should find todos by the elements of list keys", () => {
+    const schema = new KeySchema({ tags: KeyTypes.list() });
+    const list = new TodoList("Fix login tags:ui,auth\nWrite docs tag:ui", {
+      schema,
+    });
+    const [login, docs] = list.getTodos();
+    list.addTodo("Fix logout");
+    const added = list.todos[2];
+    added.set("tags", ["auth", "api"]);
+
+    expect(list.getTodosByKeyValue("tags", "auth")).toEqual([login, added]);
+    expect(list.getTodosByKeyValue("tags", "ui")).toEqual([login]);
+    expect(list.getTodosByKeyValue("tag", "ui")).toEqual([docs]);
+
+    login.set("tags", ["ui"]);
+    expect(list.getTodosByKeyValue("tags", "auth")).toEqual([added]);
+  });
+
+  it("should keep the list order of todos inserted at the same place", () => {
+    const list = new TodoList("First +home\nLast +home");
+    for (let i = 0; i < 100; i++) {
+      list.insertTodo(
+        new Todo({ description: `Todo ${i}`, projects: ["+home"] }),
+        1
+      );
+    }
+
+    expect(list.getTodosByProject("+home")).toEqual(list.todos);
+  });
+
+  it("should find todos by id after they are moved", () => {
+    const list = new TodoList("Call mom\nPay rent\nBuy milk");
+    const [call, rent] = list.getTodos();
+    list.reorder([rent, list.todos[2], call]);
+    list.deleteTodo(rent);
+
+    expect(list.getTodo(call.id)).toBe(call);
+    expect(list.getTodo(rent.id)).toBeUndefined();
+  });
+
+  it("should find todos by an id assigned in the list", () => {
+    const list = new TodoList("Call mom\nPay rent");
+    const [call] = list.getTodos();
+    const oldId = call.id;
+    call.assignId("call");
+
+    expect(list.getTodo("call")).toBe(call);
+    expect(list.getTodo(oldId)).toBeUndefined();
+  });
+});
+
+describe("Lookup benchmarks", () => {
+  const COUNT = 10000;
+  const list = new TodoList(
+    Array.from(
+      { length: COUNT },
+      (_, i) =>
+        `Task ${i} +project${i % 100} @context${i % 10} due:2026-${String(
+          (i % 12) + 1
+        ).padStart(2, "0")}-15`
+    ).join("\n")
+  );
+
+  const time = (fn: () => unknown, runs: number) => {
+    const start = performance.now();
+    for (let i = 0; i < runs; i++) fn();
+    return (performance.now() - start) / runs;
+  };
+
+  it(`should look up todos of ${COUNT} faster than scanning them`, () => {
+    const ids = list.todos.map((todo) => todo.id);
+    const indexed = time(() => {
+      list.getTodo(ids[COUNT - 1]);
+      list.getTodosByProject("+project42");
+      list.getTodosDueBetween("2026-06-01", "2026-06-30");
+    }, 100);
+    const scanned = time(() => {
+      list.todos.find((todo) => todo.id === ids[COUNT - 1]);
+      list.todos.filter((todo) => todo.projects.includes("+project42"));
+      list.todos.filter((todo) => {
+        const due = todo.keyValues["due"];
+        return due >= "2026-06-01" && due <= "2026-06-30";
+      });
+    }, 100);
+
+    expect(indexed).toBeLessThan(scanned);
+  });
+});
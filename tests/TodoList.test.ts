@@ -1,10 +1,21 @@
-import { describe, it, expect, beforeEach } from "@jest/globals";
-import { TodoList, Todo } from "../src/index";
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "@jest/globals";
+import { TodoList, Todo, Clock } from "../src/index";
 
 describe("TodoList Enhanced Features", () => {
   let todoList: TodoList;
   const TODAY = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
 
+  // Keep "today" in the same time zone as TODAY
+  beforeAll(() => Clock.setDefault(Clock.fixed(TODAY)));
+  afterAll(() => Clock.setDefault());
+
   beforeEach(() => {
     todoList = new TodoList();
 
@@ -153,6 +164,80 @@ describe("TodoList Enhanced Features", () => {
     });
   });
 
+  describe("Multi-Key Sorting", () => {
+    const text = [
+      "(B) Beta due:2023-05-01 est:10",
+      "Gamma due:2023-04-01",
+      "(A) Alpha est:2",
+      "(B) Delta due:2023-04-15 est:9",
+      "x 2023-03-01 Epsilon",
+    ].join("\n");
+
+    const order = (todos: Todo[]) => todos.map((t) => t.description);
+
+    it("should put todos without a value last by default", () => {
+      const list = new TodoList(text);
+      list.sortBy("priority");
+      expect(order(list.getTodos())).toEqual([
+        "Alpha",
+        "Beta",
+        "Delta",
+        "Gamma",
+        "Epsilon",
+      ]);
+    });
+
+    it("should apply sort keys in order with directions", () => {
+      const list = new TodoList(text);
+      list.sortBy([
+        "completed",
+        { field: "priority", missing: "first" },
+        { field: "due", direction: "desc" },
+      ]);
+      expect(order(list.getTodos())).toEqual([
+        "Gamma",
+        "Alpha",
+        "Beta",
+        "Delta",
+        "Epsilon",
+      ]);
+    });
+
+    it("should compare numeric key-values as numbers", () => {
+      const list = new TodoList(text);
+      list.sortBy({ field: "key:est", direction: "desc" });
+      expect(order(list.getTodos()).slice(0, 3)).toEqual([
+        "Beta",
+        "Delta",
+        "Alpha",
+      ]);
+    });
+
+    it("should be stable for equal todos", () => {
+      const list = new TodoList(text);
+      list.sortBy({ field: "priority", direction: "desc" });
+      expect(order(list.getTodos()).slice(0, 3)).toEqual([
+        "Beta",
+        "Delta",
+        "Alpha",
+      ]);
+    });
+
+    it("should return a sorted view without changing the list", () => {
+      const list = new TodoList(text);
+      const byDescription = list.sorted("description");
+
+      expect(order(byDescription)).toEqual([
+        "Alpha",
+        "Beta",
+        "Delta",
+        "Epsilon",
+        "Gamma",
+      ]);
+      expect(list.getTodos()[0].description).toBe("Beta");
+    });
+  });
+
   describe("Todo Queries", () => {
     it("should get todos by context", () => {
       const workTodos = todoList.getTodosByContext("@work");
@@ -179,6 +264,15 @@ describe("TodoList Enhanced Features", () => {
       expect(todayTodos.length).toBeGreaterThan(0);
       expect(todayTodos[0].description).toBe("High priority todo");
     });
+
+    it("should find todos by any value of a repeated key", () => {
+      const list = new TodoList();
+      list.parse("Todo tag:a tag:b\nOther tag:c", {
+        duplicateKeyBehavior: "merge",
+      });
+      expect(list.getTodosByKeyValue("tag", "b").length).toBe(1);
+      expect(list.getTodosByKeyValue("tag", "c")[0].description).toBe("Other");
+    });
   });
 
   describe("Date-Based Queries", () => {
@@ -273,5 +367,429 @@ describe("TodoList Enhanced Features", () => {
       expect(lines.some((line) => line.includes("x 2023-03-01"))).toBe(true);
       expect(lines.some((line) => line.includes("Completed todo"))).toBe(true);
     });
+
+    it("should keep links in the description", () => {
+      const list = new TodoList(
+        "Review https://example.com/pr/1 due:2023-04-10"
+      );
+      const todo = list.getTodos()[0];
+
+      expect(todo.description).toBe("Review https://example.com/pr/1");
+      expect(Object.keys(todo.keyValues)).toEqual(["due"]);
+      expect(list.toString()).toBe(
+        "Review https://example.com/pr/1 due:2023-04-10"
+      );
+    });
+  });
+
+  describe("Lossless Serialization", () => {
+    const source = [
+      "(A)  2023-04-01 Call mom\t@phone due:2023-04-15 +Family",
+      "x 2023-03-20 2023-03-01 Buy groceries  @store",
+      "Plan trip  rec:1y +Travel   ",
+    ].join("\n");
+
+    it("should re-emit untouched todos exactly", () => {
+      const list = new TodoList(source);
+      expect(list.toString({ lossless: true })).toBe(source);
+      expect(list.getTodos()[1].source).toBe(
+        "x 2023-03-20 2023-03-01 Buy groceries  @store"
+      );
+    });
+
+    it("should only rewrite edited key-values", () => {
+      const list = new TodoList(source);
+      const todo = list.getTodos()[0];
+      todo.setDueDate("2023-04-20");
+
+      expect(todo.isModified()).toBe(true);
+      expect(todo.toString({ lossless: true })).toBe(
+        "(A)  2023-04-01 Call mom\t@phone due:2023-04-20 +Family"
+      );
+    });
+
+    it("should drop removed key-values and append new ones", () => {
+      const list = new TodoList(source);
+      const todo = list.getTodos()[2];
+      todo.removeKeyValue("rec");
+      todo.setKeyValue("where", "home");
+
+      expect(todo.toString({ lossless: true })).toBe(
+        "Plan trip +Travel where:home   "
+      );
+    });
+
+    it("should rewrite only the header when completion changes", () => {
+      const list = new TodoList(source);
+      const first = list.getTodos()[0];
+      first.markCompleted("2023-04-10");
+      const second = list.getTodos()[1];
+      second.markIncomplete();
+
+      expect(first.toString({ lossless: true })).toBe(
+        "x 2023-04-10  2023-04-01 Call mom\t@phone due:2023-04-15 +Family"
+      );
+      expect(second.toString({ lossless: true })).toBe(
+        "2023-03-01 Buy groceries  @store"
+      );
+    });
+
+    it("should keep key-values in place when the description changes", () => {
+      const list = new TodoList("Call mom due:2023-04-15  soon");
+      const todo = list.getTodos()[0];
+      todo.setDescription("Call dad");
+
+      expect(todo.toString({ lossless: true })).toBe("Call dad due:2023-04-15");
+    });
+
+    it("should rewrite only the edited words of the description", () => {
+      const list = new TodoList(
+        "(B) buy  milk due:2026-01-01 at store\t+Errands"
+      );
+      const todo = list.getTodos()[0];
+      todo.setDescription("buy bread at the store +Errands");
+
+      expect(todo.toString({ lossless: true })).toBe(
+        "(B) buy  bread due:2026-01-01 at the store\t+Errands"
+      );
+    });
+
+    it("should fall back to the canonical format for todos created in code", () => {
+      const todo = new Todo({ description: "New", priority: "B" });
+      expect(todo.toString({ lossless: true })).toBe(todo.toString());
+      expect(todo.source).toBeUndefined();
+    });
+  });
+
+  describe("Recovering Parse Mode", () => {
+    const text = [
+      "(A) Valid todo due:2023-04-01",
+      "",
+      "Broken todo  due:tomorrow",
+      "Duplicate est:1 est:2",
+    ].join("\n");
+    const options = {
+      recover: true,
+      duplicateKeyBehavior: "error" as const,
+      customKeyHandlers: [
+        {
+          key: "due",
+          validate: (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value),
+        },
+      ],
+    };
+
+    it("should throw on the first error without recovering", () => {
+      const list = new TodoList();
+      expect(() => list.parse(text, { ...options, recover: false })).toThrow(
+        /Validation failed/
+      );
+    });
+
+    it("should keep all lines and return diagnostics", () => {
+      const list = new TodoList();
+      const diagnostics = list.parse(text, options);
+
+      expect(list.getTodos()).toHaveLength(3);
+      expect(list.getTodos()[1].keyValues["due"]).toBe("tomorrow");
+      expect(list.getTodos()[2].keyValues["est"]).toBe("1");
+
+      expect(diagnostics).toHaveLength(2);
+      expect(diagnostics[0]).toMatchObject({
+        line: 3,
+        column: 14,
+        tokenIndex: 2,
+        severity: "error",
+        todoId: list.getTodos()[1].id,
+      });
+      expect(diagnostics[1]).toMatchObject({
+        line: 4,
+        column: 17,
+        tokenIndex: 3,
+      });
+      expect(list.getDiagnostics()).toEqual(diagnostics);
+    });
+
+    it("should round-trip flagged lines unchanged", () => {
+      const list = new TodoList();
+      list.parse(text, options);
+      expect(list.toString({ lossless: true })).toBe(
+        text
+          .split("\n")
+          .filter((line) => line)
+          .join("\n")
+      );
+    });
+  });
+
+  describe("Stable Identity", () => {
+    const text = "(A) Call mom @phone\nBuy milk\nWalk the dog";
+
+    it("should keep ids of unchanged and edited lines on reparse", () => {
+      const list = new TodoList(text);
+      const [call, milk, walk] = list.getTodos().map((t) => t.id);
+
+      list.parse(
+        "Walk the dog\nx 2023-04-02 Call mom @phone\nBuy oat milk\nNew todo"
+      );
+      const todos = list.getTodos();
+
+      expect(todos[0].id).toBe(walk);
+      expect(todos[1].id).toBe(call);
+      expect(todos[2].id).toBe(milk);
+      expect([call, milk, walk]).not.toContain(todos[3].id);
+    });
+
+    it("should match the edited lines of a large file", () => {
+      const lines = Array.from(
+        { length: 3000 },
+        (_, i) => `Task ${i} for project ${["alpha", "beta", "gamma"][i % 3]}`
+      );
+      const list = new TodoList(lines.join("\n"));
+      const ids = list.getTodos().map((t) => t.id);
+
+      list.parse(lines.map((line) => `${line} later`).join("\n"));
+
+      expect(list.getTodos().map((t) => t.id)).toEqual(ids);
+    });
+
+    it("should match an edited line with the most similar of many near-duplicates", () => {
+      const lines = Array.from(
+        { length: 60 },
+        (_, i) => `Buy milk and bread n${i}`
+      );
+      const list = new TodoList([...lines, "Buy milk and bread"].join("\n"));
+      const id = list.getTodos()[60].id;
+
+      list.parse("Buy milk and bread please");
+
+      expect(list.getTodos()[0].id).toBe(id);
+    });
+
+    it("should give every todo a new id with the random strategy", () => {
+      const list = new TodoList(text, { identity: "random" });
+      const ids = list.getTodos().map((t) => t.id);
+
+      list.parse(text);
+      for (const todo of list.getTodos()) {
+        expect(ids).not.toContain(todo.id);
+      }
+    });
+
+    it("should persist ids as key-value pairs with the key strategy", () => {
+      const list = new TodoList("Call mom id:a1\nBuy milk id:a1", {
+        identity: "key",
+      });
+      const [call, milk] = list.getTodos();
+
+      expect(call.id).toBe("a1");
+      expect(milk.id).not.toBe("a1");
+      expect(list.toString({ lossless: true })).toBe(
+        `Call mom id:a1\nBuy milk id:${milk.id}`
+      );
+
+      list.addTodo("Walk the dog");
+      expect(list.getTodos()[2].keyValues["id"]).toBe(list.getTodos()[2].id);
+
+      list.parse(list.toString());
+      expect(list.getTodos().map((t) => t.id)).toEqual([
+        "a1",
+        milk.id,
+        list.getTodos()[2].id,
+      ]);
+    });
+
+    it("should derive ids from the content with the hash strategy", () => {
+      const list = new TodoList("Buy milk\nBuy milk\nCall mom", {
+        identity: "hash",
+      });
+      const ids = list.getTodos().map((t) => t.id);
+
+      expect(ids[1]).toBe(`${ids[0]}-2`);
+      expect(ids[2]).not.toBe(ids[0]);
+      expect(
+        new TodoList("Call mom", { identity: "hash" }).getTodos()[0].id
+      ).toBe(ids[2]);
+    });
+
+    it("should keep the id when cloning on request", () => {
+      const todo = new Todo({ description: "Call mom" });
+
+      expect(todo.clone({ keepId: true }).id).toBe(todo.id);
+      expect(todo.clone().id).not.toBe(todo.id);
+    });
+  });
+
+  describe("Completing Todos", () => {
+    it("should complete a todo and insert its next occurrence", () => {
+      const list = new TodoList(
+        "Water plants due:2023-04-10 rec:+1w\nPay rent"
+      );
+      const todo = list.getTodos()[0];
+
+      const { completed, next } = list.complete(todo.id, {
+        date: "2023-04-11",
+      });
+
+      expect(completed).toBe(todo);
+      expect(list.toString()).toBe(
+        [
+          "x 2023-04-11 Water plants due:2023-04-10 rec:+1w",
+          "Water plants due:2023-04-17 rec:+1w",
+          "Pay rent",
+        ].join("\n")
+      );
+      expect(next).toBe(list.getTodos()[1]);
+      expect(next?.id).not.toBe(todo.id);
+    });
+
+    it("should not spawn another occurrence when called twice", () => {
+      const list = new TodoList("Water plants due:2023-04-10 rec:1w");
+      const todo = list.getTodos()[0];
+
+      const first = list.complete(todo, { date: "2023-04-11" });
+      const second = list.complete(todo, { date: "2023-04-12" });
+
+      expect(list.getTodos()).toHaveLength(2);
+      expect(second.next).toBe(first.next);
+      expect(todo.completionDate).toBe("2023-04-11");
+    });
+
+    it("should find the open occurrence by content under the key strategy", () => {
+      const list = new TodoList("Water plants due:2023-04-10 rec:1w id:a", {
+        identity: "key",
+      });
+      const todo = list.getTodos()[0];
+
+      const first = list.complete(todo, { date: "2023-04-11" });
+      expect(first.next?.keyValues["id"]).not.toBe("a");
+
+      todo.markIncomplete();
+      const second = list.complete(todo, { date: "2023-04-11" });
+      expect(second.next).toBe(first.next);
+      expect(list.getTodos()).toHaveLength(2);
+      expect(list.complete(todo).next).toBe(first.next);
+    });
+
+    it("should only complete todos without recurrence", () => {
+      const list = new TodoList("Pay rent");
+      const { completed, next } = list.complete(list.getTodos()[0]);
+
+      expect(completed.completed).toBe(true);
+      expect(next).toBeUndefined();
+      expect(list.getTodos()).toHaveLength(1);
+    });
+
+    it("should set the creation date and archive on request", () => {
+      const list = new TodoList(
+        "2023-04-01 Water plants due:2023-04-10 rec:+1w"
+      );
+      const done = new TodoList();
+      const todo = list.getTodos()[0];
+
+      const { next } = list.complete(todo, {
+        date: "2023-04-11",
+        setCreationDate: true,
+        archive: done,
+      });
+
+      expect(list.getTodos()).toEqual([next]);
+      expect(done.getTodos()).toEqual([todo]);
+      expect(next?.creationDate).toBe(TODAY);
+    });
+
+    it("should report all changes in one notification", () => {
+      const list = new TodoList("Water plants due:2023-04-10 rec:+1w");
+      const notifications: string[][] = [];
+      list.subscribe((events) => notifications.push(events.map((e) => e.type)));
+
+      list.complete(list.getTodos()[0]);
+      expect(notifications).toEqual([["updated", "added"]]);
+    });
+
+    it("should handle the priority as configured", () => {
+      const list = new TodoList("(A) Pay rent", { completedPriority: "pri" });
+      const { completed } = list.complete(list.getTodos()[0], {
+        date: "2023-04-10",
+      });
+      expect(completed.toString()).toBe("x 2023-04-10 Pay rent pri:A");
+      expect(list.filter("pri:A")).toEqual([completed]);
+    });
+
+    it("should follow the format by default and keep legacy lines", () => {
+      const list = new TodoList(
+        "(A) Water plants due:2023-04-10 rec:1w\nx (B) 2023-04-01 Pay rent"
+      );
+      const { next } = list.complete(list.getTodos()[0], {
+        date: "2023-04-10",
+      });
+
+      expect(list.toString()).toBe(
+        [
+          "x 2023-04-10 Water plants due:2023-04-10 rec:1w",
+          "(A) Water plants due:2023-04-17 rec:1w",
+          "x (B) 2023-04-01 Pay rent",
+        ].join("\n")
+      );
+      expect(next?.priority).toBe("(A)");
+    });
+
+    it("should throw for unknown todos", () => {
+      expect(() => new TodoList().complete("missing")).toThrow(/not found/);
+    });
+  });
+
+  describe("Threshold Dates", () => {
+    const today = "2023-04-10";
+    let list: TodoList;
+
+    beforeEach(() => {
+      list = new TodoList(
+        [
+          "File taxes t:2023-04-15",
+          "Renew passport due:2023-04-20 t:-2w",
+          "Call mom",
+          "x 2023-04-09 Pay rent t:2023-04-01",
+          "Book flights due:2023-05-01 t:-1w",
+        ].join("\n")
+      );
+    });
+
+    const descriptions = (todos: Todo[]) => todos.map((t) => t.description);
+
+    it("should list actionable and future todos", () => {
+      expect(descriptions(list.getActionableTodos(today))).toEqual([
+        "Renew passport",
+        "Call mom",
+      ]);
+      expect(descriptions(list.getFutureTodos(today))).toEqual([
+        "File taxes",
+        "Book flights",
+      ]);
+    });
+
+    it("should filter by resolved threshold in queries", () => {
+      expect(descriptions(list.filter("is:actionable", { today }))).toEqual([
+        "Renew passport",
+        "Call mom",
+      ]);
+      expect(descriptions(list.filter("is:future", { today }))).toEqual([
+        "File taxes",
+        "Book flights",
+      ]);
+      expect(
+        descriptions(list.filter("t:<today+1w is:open", { today }))
+      ).toEqual(["File taxes", "Renew passport"]);
+    });
+
+    it("should sort by resolved threshold", () => {
+      expect(descriptions(list.sorted("threshold"))).toEqual([
+        "Pay rent",
+        "Renew passport",
+        "File taxes",
+        "Book flights",
+        "Call mom",
+      ]);
+    });
   });
 });
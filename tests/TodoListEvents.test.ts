@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { TodoList, Todo, TodoListEvent } from "../src/index";
+
+describe("TodoList Change Events", () => {
+  let todoList: TodoList;
+  let notifications: TodoListEvent[][];
+
+  beforeEach(() => {
+    todoList = new TodoList("(A) Call mom @phone\nBuy milk due:2023-04-01");
+    notifications = [];
+    todoList.subscribe((events) => notifications.push(events));
+  });
+
+  it("should emit added and removed events", () => {
+    const added: number[] = [];
+    todoList.on("added", (event) => added.push(event.index));
+
+    todoList.addTodo("Walk the dog");
+    const todo = todoList.getTodos()[2];
+    todoList.deleteTodo(todo.id);
+
+    expect(added).toEqual([2]);
+    expect(notifications).toEqual([
+      [{ type: "added", todos: [todo], index: 2 }],
+      [{ type: "removed", todos: [todo], indexes: [2] }],
+    ]);
+  });
+
+  it("should report changes made directly on a todo", () => {
+    const todo = todoList.getTodos()[0];
+    todo.addContext("@home");
+    todo.markCompleted("2023-04-02");
+
+    expect(notifications).toEqual([
+      [
+        {
+          type: "updated",
+          todo,
+          fields: ["contexts"],
+          previous: { contexts: ["@phone"] },
+        },
+      ],
+      [
+        {
+          type: "updated",
+          todo,
+          fields: ["completed", "completionDate", "priority"],
+          previous: {
+            completed: false,
+            completionDate: undefined,
+            priority: "(A)",
+          },
+        },
+      ],
+    ]);
+  });
+
+  it("should not report changes that change nothing", () => {
+    const todo = todoList.getTodos()[0];
+    todo.addContext("@phone");
+    todo.setPriority("A");
+
+    expect(notifications).toHaveLength(0);
+  });
+
+  it("should merge the changes of an edit into one event", () => {
+    const todo = todoList.getTodos()[1];
+    todoList.editTodo(todo.id, (t) => {
+      t.setDescription("Buy oat milk");
+      t.setDueDate("2023-04-05");
+      t.setDescription("Buy soy milk");
+    });
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toEqual([
+      {
+        type: "updated",
+        todo,
+        fields: ["description", "keyValues"],
+        previous: {
+          description: "Buy milk",
+          keyValues: { due: "2023-04-01" },
+        },
+      },
+    ]);
+  });
+
+  it("should batch several changes into one notification", () => {
+    const result = todoList.batch(() => {
+      todoList.addTodo("Walk the dog");
+      todoList.sortBy("description");
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].map((e) => e.type)).toEqual(["added", "reordered"]);
+  });
+
+  it("should emit reset on parse and stop watching old todos", () => {
+    const oldTodo = todoList.getTodos()[0];
+    todoList.parse("New todo");
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0][0]).toMatchObject({
+      type: "reset",
+      todos: todoList.getTodos(),
+      previous: [oldTodo, expect.any(Todo)],
+    });
+
+    oldTodo.setDescription("Changed");
+    todoList.getTodos()[0].setDescription("Also changed");
+    expect(notifications).toHaveLength(2);
+    expect(notifications[1][0]).toMatchObject({
+      type: "updated",
+      todo: todoList.getTodos()[0],
+    });
+  });
+
+  it("should stop notifying after unsubscribing", () => {
+    const events: string[] = [];
+    const off = todoList.on("removed", (event) => events.push(event.type));
+    off();
+
+    todoList.deleteTodo(todoList.getTodos()[0]);
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "@jest/globals";
+import { TodoList, TodoMerger } from "../src/index";
+
+describe("TodoMerger", () => {
+  const base = new TodoList(
+    [
+      "(A) Call mom @phone",
+      "Buy milk @store due:2023-04-01",
+      "Pay rent +home",
+      "Water plants",
+    ].join("\n")
+  );
+
+  const merge = (ours: string, theirs: string, merger = new TodoMerger()) =>
+    merger.merge(base, new TodoList(ours), new TodoList(theirs));
+
+  it("should merge changes to different fields of the same todo", () => {
+    const { list, conflicts } = merge(
+      [
+        "x 2023-04-02 Call mom @phone",
+        "Buy milk @store due:2023-04-01",
+        "Pay rent +home",
+        "Water plants",
+      ].join("\n"),
+      [
+        "(A) Call mom @phone @home",
+        "Buy milk @store due:2023-04-03 est:5",
+        "Pay rent +home",
+        "Water plants",
+      ].join("\n")
+    );
+
+    expect(conflicts).toEqual([]);
+    expect(list.toString()).toBe(
+      [
+        "x 2023-04-02 Call mom @phone @home",
+        "Buy milk @store due:2023-04-03 est:5",
+        "Pay rent +home",
+        "Water plants",
+      ].join("\n")
+    );
+  });
+
+  it("should take over additions and deletions from both sides", () => {
+    const { list, conflicts } = merge(
+      "(A) Call mom @phone\nBuy milk @store due:2023-04-01\nWater plants\nWalk the dog",
+      "(A) Call mom @phone\nBuy milk @store due:2023-04-01\nPay rent +home\nFile taxes"
+    );
+
+    expect(conflicts).toEqual([]);
+    expect(list.toString()).toBe(
+      "(A) Call mom @phone\nBuy milk @store due:2023-04-01\nWalk the dog\nFile taxes"
+    );
+  });
+
+  it("should merge a todo added on both sides only once", () => {
+    const { list, conflicts } = merge(
+      base.toString() + "\nWalk the dog due:2023-04-05",
+      base.toString() + "\n(B) Walk the dog"
+    );
+
+    expect(conflicts).toEqual([]);
+    expect(list.getTodos()).toHaveLength(5);
+    expect(list.getTodos()[4].toString()).toBe(
+      "(B) Walk the dog due:2023-04-05"
+    );
+  });
+
+  it("should report conflicting field changes", () => {
+    const ours = "(B) Call mom @phone\nBuy milk @store due:2023-04-05";
+    const theirs = "(C) Call mom @phone\nBuy milk @store due:2023-04-07";
+    const { list, conflicts } = merge(ours, theirs);
+
+    expect(conflicts).toEqual([
+      {
+        type: "field",
+        todo: list.getTodos()[0],
+        field: "priority",
+        base: "(A)",
+        ours: "(B)",
+        theirs: "(C)",
+      },
+      {
+        type: "field",
+        todo: list.getTodos()[1],
+        field: "keyValues",
+        key: "due",
+        base: "2023-04-01",
+        ours: "2023-04-05",
+        theirs: "2023-04-07",
+      },
+    ]);
+    expect(list.getTodos()[0].priority).toBe("(B)");
+
+    const preferTheirs = merge(
+      ours,
+      theirs,
+      new TodoMerger({ prefer: "theirs" })
+    );
+    expect(preferTheirs.list.getTodos()[0].priority).toBe("(C)");
+  });
+
+  it("should keep a todo that one side deleted and the other changed", () => {
+    const { list, conflicts } = merge(
+      "(A) Call mom @phone\nBuy milk @store due:2023-04-01\nWater plants",
+      "(A) Call mom @phone\nBuy milk @store due:2023-04-01\nx 2023-04-02 Pay rent +home\nWater plants"
+    );
+
+    expect(list.getTodos()).toHaveLength(4);
+    expect(conflicts).toEqual([
+      {
+        type: "deleted",
+        todo: list.getTodos()[3],
+        deletedIn: "ours",
+        base: base.getTodos()[2],
+      },
+    ]);
+    expect(list.getTodos()[3].completed).toBe(true);
+  });
+
+  it("should pair todos by key when configured", () => {
+    const keyed = new TodoList("Call mom id:1\nCall dad id:2");
+    const { list, conflicts } = new TodoMerger({ key: "id" }).merge(
+      keyed,
+      new TodoList("Call mother id:1\nCall dad id:2"),
+      new TodoList("Call mom id:1\nCall dad @phone id:2")
+    );
+
+    expect(conflicts).toEqual([]);
+    expect(list.toString()).toBe("Call mother id:1\nCall dad @phone id:2");
+  });
+
+  it("should keep the options of our version", () => {
+    const options = {
+      identity: "key" as const,
+      completedPriority: "pri" as const,
+    };
+    const { list } = new TodoMerger().merge(
+      new TodoList("(A) Call mom id:1", options),
+      new TodoList("(A) Call mom @phone id:1", options),
+      new TodoList("(A) Call mom id:1", options)
+    );
+    list.addTodo("Walk the dog");
+    list.complete(list.getTodos()[0], { date: "2023-04-02" });
+
+    expect(list.getOptions()).toMatchObject(options);
+    expect(list.getTodos()[1].keyValues["id"]).toBe(list.getTodos()[1].id);
+    expect(list.getTodos()[0].toString()).toBe(
+      "x 2023-04-02 Call mom @phone id:1 pri:A"
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from "@jest/globals";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import { TodoReader, TodoList, ParsedTodo } from "../src/index";
+
+describe("TodoReader", () => {
+  const collect = async (iterable: AsyncIterable<ParsedTodo>) => {
+    const entries: ParsedTodo[] = [];
+    for await (const entry of iterable) {
+      entries.push(entry);
+    }
+    return entries.map(({ todo, line }) => [line, todo.toString()]);
+  };
+
+  it("should parse lines with their line numbers, skipping blank lines", () => {
+    const entries = [
+      ...new TodoReader().parse("(A) Call mom\r\n\r\nBuy milk @store\n"),
+    ];
+
+    expect(entries.map(({ todo, line }) => [line, todo.toString()])).toEqual([
+      [1, "(A) Call mom"],
+      [3, "Buy milk @store"],
+    ]);
+  });
+
+  it("should join lines split across chunks", async () => {
+    const bytes = Buffer.from("Café @home\nPay rent +home\r\nWalk the dog");
+    // Split inside the two bytes of "é" and inside the second line
+    const chunks = [
+      bytes.subarray(0, 4),
+      bytes.subarray(4, 17),
+      bytes.subarray(17),
+    ];
+
+    expect(await collect(new TodoReader().read(Readable.from(chunks)))).toEqual(
+      [
+        [1, "Café @home"],
+        [2, "Pay rent +home"],
+        [3, "Walk the dog"],
+      ]
+    );
+  });
+
+  it("should read WHATWG streams", async () => {
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        controller.enqueue("(B) Call ");
+        controller.enqueue("mom\n\nBuy milk\n");
+        controller.close();
+      },
+    });
+
+    expect(
+      await collect(
+        new TodoReader().read(stream as any as AsyncIterable<string>)
+      )
+    ).toEqual([
+      [1, "(B) Call mom"],
+      [3, "Buy milk"],
+    ]);
+  });
+
+  it("should report diagnostics with line numbers when recovering", () => {
+    const reader = new TodoReader({
+      parserOptions: { recover: true, invalidDates: "diagnostic" },
+    });
+    const [entry] = [...reader.parse("\nPay rent due:2026-02-30")];
+
+    expect(entry.line).toBe(2);
+    expect(entry.diagnostics).toEqual([
+      expect.objectContaining({
+        line: 2,
+        column: 14,
+        severity: "warning",
+        todoId: entry.todo.id,
+      }),
+    ]);
+  });
+});
+
+describe("TodoList streaming and incremental parsing", () => {
+  const text = "(A) Call mom\nBuy milk @store\n\nPay rent +home";
+
+  it("should parse a stream like a string", async () => {
+    const list = new TodoList();
+    await list.parseStream(Readable.from([text.slice(0, 20), text.slice(20)]));
+
+    expect(list.toString()).toBe(new TodoList(text).toString());
+  });
+
+  it("should re-parse only the edited lines", () => {
+    const list = new TodoList(text);
+    const [call, milk, rent] = list.getTodos();
+    const events: string[] = [];
+    list.subscribe((batch) => events.push(...batch.map((e) => e.type)));
+
+    // Replace "milk" with "bread"
+    const from = text.indexOf("milk");
+    list.applyTextEdit({ from, to: from + 4, text: "bread" });
+
+    const todos = list.getTodos();
+    expect(todos.map((todo) => todo.toString())).toEqual([
+      "(A) Call mom",
+      "Buy bread @store",
+      "Pay rent +home",
+    ]);
+    expect(todos[0]).toBe(call);
+    expect(todos[1]).not.toBe(milk);
+    expect(todos[1].id).toBe(milk.id);
+    expect(todos[2]).toBe(rent);
+    expect(events).toEqual(["removed", "added"]);
+  });
+
+  it("should handle inserted and removed lines", () => {
+    const list = new TodoList(text);
+    const rent = list.getTodos()[2];
+
+    // Split the first line in two, then join the blank line and the last line
+    list.applyTextEdit({ from: 8, to: 9, text: "\nCall " });
+    expect(list.getTodos().map((todo) => todo.toString())).toEqual([
+      "(A) Call",
+      "Call mom",
+      "Buy milk @store",
+      "Pay rent +home",
+    ]);
+
+    const edited = "(A) Call\nCall mom\nBuy milk @store\n\nPay rent +home";
+    const blank = edited.indexOf("\n\n");
+    list.applyTextEdit({ from: blank, to: blank + 1, text: "" });
+    expect(list.getTodos()[3]).toBe(rent);
+    expect(list.toString()).toBe(
+      "(A) Call\nCall mom\nBuy milk @store\nPay rent +home"
+    );
+  });
+
+  it("should move the diagnostics of following lines", () => {
+    const list = new TodoList();
+    list.parse("Pay rent\nCall mom due:2026-02-30", {
+      recover: true,
+      invalidDates: "diagnostic",
+    });
+    expect(list.getDiagnostics()[0].line).toBe(2);
+
+    list.applyTextEdit(
+      { from: 0, to: 0, text: "New todo\n" },
+      { recover: true, invalidDates: "diagnostic" }
+    );
+    expect(list.getDiagnostics().map((d) => d.line)).toEqual([3]);
+  });
+
+  it("should keep the diagnostics of unchanged lines within the edit", () => {
+    const options = { recover: true, invalidDates: "diagnostic" as const };
+    const text = "Pay rent\nCall mom due:2026-02-30";
+    const list = new TodoList();
+    list.parse(text, options);
+
+    // Replace all lines, keeping the text of the old ones
+    list.applyTextEdit(
+      { from: 0, to: text.length, text: `Buy milk\n${text}` },
+      options
+    );
+    expect(list.getDiagnostics().map((d) => d.line)).toEqual([3]);
+  });
+
+  it("should refuse edits once the list no longer matches the text", () => {
+    const list = new TodoList(text);
+    list.addTodo("Walk the dog");
+
+    expect(() => list.applyTextEdit({ from: 0, to: 0, text: "x " })).toThrow(
+      /parse the text again/
+    );
+  });
+});
+
+describe("Large inputs", () => {
+  const LINES = 10000;
+  const text = Array.from(
+    { length: LINES },
+    (_, i) =>
+      `(${"ABC"[i % 3]}) 2026-01-01 Task number ${i} +project${i % 7} @context${
+        i % 5
+      } due:2026-02-${String((i % 28) + 1).padStart(2, "0")} est:${i % 8}h`
+  ).join("\n");
+
+  it(`should parse ${LINES} lines from a string and from a stream`, async () => {
+    const fromString = new TodoList();
+    fromString.parse(text);
+
+    // 64 KiB chunks, as read from a file
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += 65536) {
+      chunks.push(text.slice(i, i + 65536));
+    }
+    const fromStream = new TodoList();
+    await fromStream.parseStream(Readable.from(chunks));
+
+    expect(fromStream.getTodos()).toHaveLength(LINES);
+    expect(fromStream.toString()).toBe(fromString.toString());
+  });
+
+  it("should parse only the edited line of an edit", () => {
+    const list = new TodoList();
+    list.parse(text);
+    const before = list.getTodos();
+
+    const from = text.indexOf("Task number 5000 ");
+    list.applyTextEdit({ from, to: from + 4, text: "Todo" });
+
+    const after = list.getTodos();
+    expect(after[5000].description).toMatch(/^Todo number 5000 /);
+    expect(after.filter((todo, i) => todo !== before[i])).toEqual([
+      after[5000],
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TodoStore } from "../src/node";
+
+describe("TodoStore", () => {
+  let directory: string;
+
+  const read = (name: string) =>
+    fs.readFile(path.join(directory, name), "utf8");
+  const write = (name: string, text: string) =>
+    fs.writeFile(path.join(directory, name), text, "utf8");
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "todotxt4js-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe("Loading", () => {
+    it("should load todo and done files", async () => {
+      await write("todo.txt", "(A) Call mom\nBuy milk @store\n");
+      await write("done.txt", "x 2023-03-01 Pay rent\n");
+
+      const store = new TodoStore(directory);
+      await store.load();
+
+      expect(store.todoList.getTodos()).toHaveLength(2);
+      expect(store.doneList.getTodos()).toHaveLength(1);
+      expect(store.doneList.getTodos()[0].completed).toBe(true);
+    });
+
+    it("should treat missing files as empty", async () => {
+      const store = new TodoStore(directory);
+      await store.load();
+
+      expect(store.todoList.getTodos()).toHaveLength(0);
+      expect(store.doneList.getTodos()).toHaveLength(0);
+    });
+
+    it("should use custom file names", async () => {
+      await write("work.txt", "Write report\n");
+
+      const store = new TodoStore(directory, { todoFile: "work.txt" });
+      await store.load();
+
+      expect(store.todoPath).toBe(path.join(directory, "work.txt"));
+      expect(store.todoList.getTodos()[0].description).toBe("Write report");
+    });
+
+    it("should keep ids of unchanged lines when reloading", async () => {
+      await write("todo.txt", "(A) Call mom\nBuy milk @store\n");
+
+      const store = new TodoStore(directory);
+      await store.load();
+      const id = store.todoList.getTodos()[1].id;
+
+      await write("todo.txt", "Pay rent\nBuy milk @store\n");
+      await store.load();
+
+      expect(store.todoList.getTodo(id)?.description).toBe("Buy milk @store");
+    });
+  });
+
+  describe("Saving", () => {
+    it("should keep unchanged files byte for byte when lossless", async () => {
+      const text = "(A)  Call mom\t@phone\r\nBuy milk  due:2023-04-01";
+      await write("todo.txt", text);
+
+      const store = new TodoStore(directory, { lossless: true });
+      await store.load();
+      await store.save();
+
+      expect(await read("todo.txt")).toBe(text);
+    });
+
+    it("should normalize the layout by default", async () => {
+      await write("todo.txt", "(A)  Call mom\t@phone\n");
+
+      const store = new TodoStore(directory);
+      await store.load();
+      await store.save();
+
+      expect(await read("todo.txt")).toBe("(A) Call mom @phone\n");
+    });
+
+    it("should keep line endings and trailing newline when editing", async () => {
+      await write("todo.txt", "Call mom\r\nBuy milk\r\n");
+
+      const store = new TodoStore(directory);
+      await store.load();
+      store.todoList.addTodo("Walk the dog");
+      await store.save();
+
+      expect(await read("todo.txt")).toBe(
+        "Call mom\r\nBuy milk\r\nWalk the dog\r\n"
+      );
+    });
+
+    it("should not leave temporary files behind", async () => {
+      await write("todo.txt", "Call mom\n");
+
+      const store = new TodoStore(directory);
+      await store.load();
+      await store.save();
+
+      expect((await fs.readdir(directory)).sort()).toEqual([
+        "done.txt",
+        "todo.txt",
+      ]);
+    });
+  });
+
+  describe("Archiving", () => {
+    it("should move completed todos to the done file", async () => {
+      await write(
+        "todo.txt",
+        "Call mom\nx 2023-03-02 Buy milk\nPay rent\nx 2023-03-03 Walk dog\n"
+      );
+      await write("done.txt", "x 2023-03-01 Old task\n");
+
+      const store = new TodoStore(directory);
+      await store.load();
+      const archived = await store.archive();
+
+      expect(archived.map((t) => t.description)).toEqual([
+        "Buy milk",
+        "Walk dog",
+      ]);
+      expect(await read("todo.txt")).toBe("Call mom\nPay rent\n");
+      expect(await read("done.txt")).toBe(
+        "x 2023-03-01 Old task\nx 2023-03-02 Buy milk\nx 2023-03-03 Walk dog\n"
+      );
+    });
+
+    it("should append to the done file when it was not loaded", async () => {
+      await write("done.txt", "x 2023-03-01 Old task\r\n");
+
+      const store = new TodoStore(directory);
+      store.todoList.addTodo("x 2023-03-02 Buy milk");
+      await store.archive();
+
+      expect(await read("done.txt")).toBe(
+        "x 2023-03-01 Old task\r\nx 2023-03-02 Buy milk\r\n"
+      );
+    });
+
+    it("should do nothing without completed todos", async () => {
+      await write("todo.txt", "Call mom\n");
+
+      const store = new TodoStore(directory);
+      await store.load();
+
+      expect(await store.archive()).toEqual([]);
+      expect(await fs.readdir(directory)).toEqual(["todo.txt"]);
+    });
+  });
+});
@@ -1,10 +1,22 @@
-import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "@jest/globals";
 import { Todo, RecurrencePattern } from "../src/Todo";
+import { Clock } from "../src/Clock";
 
 describe("Todo Features", () => {
   let todo: Todo;
   const TODAY = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
 
+  // Keep "today" in the same time zone as TODAY
+  beforeAll(() => Clock.setDefault(Clock.fixed(TODAY)));
+  afterAll(() => Clock.setDefault());
+
   beforeEach(() => {
     todo = new Todo({
       description: "Test todo",
@@ -322,10 +334,12 @@ describe("Todo Features", () => {
     it("should generate recurring todo with correct due date", () => {
       todo.setDueDate("2023-04-10");
       todo.setRecurrence({ type: "weekly", interval: 2 });
+      todo.markCompleted("2023-04-12");
 
       const newTodo = todo.generateRecurringTodo();
       expect(newTodo).toBeDefined();
-      expect(newTodo?.getDueDate()).toBe("2023-04-24"); // 2 weeks later
+      expect(newTodo?.getDueDate()).toBe("2023-04-26"); // 2 weeks after completion
+      expect(newTodo?.completed).toBe(false);
 
       // Should preserve other properties
       expect(newTodo?.description).toBe(todo.description);
@@ -2,7 +2,9 @@ import { defineConfig } from "tsup";
 
 export default defineConfig({
   format: ["cjs", "esm"],
-  entry: ["./src/index.ts"],
+  entry: ["./src/index.ts", "./src/node.ts"],
+  // Both entries share one copy of the classes, so instanceof works across them
+  splitting: true,
   dts: true,
   shims: true,
   skipNodeModulesBundle: true,